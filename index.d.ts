@@ -1,14 +1,90 @@
 // index.d.ts
 declare module "rest-shape";
-import { QueryObject, QueryDirective } from "./src/types";
+import { QueryObject, QueryDirective, ShapeOptions } from "./src/types";
+import { InferShape } from "./src/infer";
 
+export function shape<T, Q extends string>(
+  data: T,
+  query: Q,
+  fragments?: Record<string, QueryObject> | ShapeOptions,
+  rootData?: any,
+  contextKey?: string
+): InferShape<T, Q>;
 export function shape<T>(
   data: T,
   query: string | QueryObject,
-  fragments?: Record<string, QueryObject>,
+  fragments?: Record<string, QueryObject> | ShapeOptions,
   rootData?: any,
   contextKey?: string
 ): any;
 
-export { parseQuery } from "./src/parser";
+export { shapeAsync, multiSource } from "./src/shape";
+export { compile } from "./src/compile";
+export { parseQuery, parseDocument } from "./src/parser";
+export {
+  compileExpression,
+  evaluateExpression,
+  parseExpression,
+} from "./src/expression";
+export {
+  AmbiguousKeyError,
+  PersistedQueryError,
+  QueryArgumentError,
+  QueryFragmentError,
+  QueryParseError,
+  QueryVariableError,
+  QueryValidationError,
+} from "./src/errors";
+export type { PersistedQueryErrorCode } from "./src/errors";
+export { registerDirective, getDirective } from "./src/directives";
+export { STANDARD_HELPERS } from "./src/helpers";
+export { ENVELOPES, encodeCursor, decodeCursor } from "./src/paginate";
+export {
+  createResponseShaper,
+  expressShape,
+  fastifyShape,
+  koaShape,
+} from "./src/middleware";
+export type {
+  ShapeErrorBody,
+  ShapeMiddlewareOptions,
+  ShapeOutcome,
+} from "./src/middleware";
+export { QueryRegistry } from "./src/registry";
+export type {
+  PersistedQueryRequest,
+  QueryRegistryOptions,
+  RegisteredQuery,
+  ShapeFileSystem,
+} from "./src/registry";
+export { unshape } from "./src/unshape";
+export type {
+  NotInvertible,
+  UnshapeOptions,
+  UnshapeResult,
+} from "./src/unshape";
+export type { JsonPatchOperation } from "./src/patch";
+export { shapeDiff } from "./src/diff";
+export { shapeStream, toNdjson } from "./src/stream";
+export type { JsonTextStream } from "./src/stream";
+export { generateTypes, resultSchema, schemaToTypeScript } from "./src/typegen";
+export type { TypegenOptions } from "./src/typegen";
+export { validateQuery } from "./src/validate";
+export type { ValidateOptions } from "./src/validate";
+export {
+  SHAPE_EXTENSION,
+  loadOpenApi,
+  shapedOperations,
+  shapeOpenApi,
+  toOpenApi30,
+} from "./src/openapi";
+export type {
+  OpenApiDocument,
+  OpenApiOptions,
+  ShapeExtension,
+  ShapedOperation,
+} from "./src/openapi";
+export { inferSchema } from "./src/schema";
+export type { JsonSchema, JsonSchemaType } from "./src/schema";
+export type { InferShape } from "./src/infer";
 export * from "./src/types";
@@ -0,0 +1,74 @@
+import { AggregateSpec } from "./types";
+import { getByPath } from "./utils";
+
+const numbers = (values: any[]) =>
+  values.filter(
+    (value): value is number => typeof value === "number" && !isNaN(value)
+  );
+
+const present = (values: any[]) => values.filter((value) => value != null);
+
+/** Smallest or largest present value; numbers and strings compare natively */
+const extreme = (values: any[], pick: (a: any, b: any) => boolean) =>
+  present(values).reduce(
+    (best, value) => (best === null || pick(value, best) ? value : best),
+    null
+  );
+
+const REDUCERS: Record<string, (values: any[]) => any> = {
+  count: (values) => present(values).length,
+  sum: (values) => numbers(values).reduce((sum, value) => sum + value, 0),
+  avg: (values) => {
+    const list = numbers(values);
+    return list.length
+      ? list.reduce((sum, value) => sum + value, 0) / list.length
+      : null;
+  },
+  min: (values) => extreme(values, (a, b) => a < b),
+  max: (values) => extreme(values, (a, b) => a > b),
+  distinct: (values) => [...new Set(present(values))],
+};
+
+/** Operations `@aggregate` accepts, in output order */
+export const AGGREGATIONS = Object.keys(REDUCERS);
+
+/**
+ * Reduce an array to summary values. Each operation takes a field path, a
+ * list of paths (giving an object keyed by path), or `true` for the items
+ * themselves; `count: true` counts items, `count: "path"` counts non-null
+ * values.
+ */
+export function aggregate(
+  items: any[],
+  spec: AggregateSpec
+): Record<string, any> {
+  const result: Record<string, any> = {};
+  for (const operation of AGGREGATIONS) {
+    const target = spec[operation as keyof AggregateSpec];
+    if (target === undefined || target === false) continue;
+
+    const reduce = (path: string | true) =>
+      REDUCERS[operation](
+        path === true ? items : items.map((item) => getByPath(item, path))
+      );
+    if (operation === "count" && target === true) result.count = items.length;
+    else if (Array.isArray(target))
+      result[operation] = Object.fromEntries(
+        target.map((path) => [path, reduce(String(path))])
+      );
+    else result[operation] = reduce(target === true ? true : String(target));
+  }
+  return result;
+}
+
+/** Group items by the value at `path`, keeping first-seen order */
+export function groupItems(items: any[], path: string): Map<any, any[]> {
+  const groups = new Map<any, any[]>();
+  for (const item of items) {
+    const key = getByPath(item, path);
+    const group = groups.get(key);
+    if (group) group.push(item);
+    else groups.set(key, [item]);
+  }
+  return groups;
+}
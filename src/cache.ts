@@ -0,0 +1,19 @@
+/** Maximum entries kept per cache, so arbitrary client queries can't grow memory unbounded */
+export const CACHE_LIMIT = 1000;
+
+/**
+ * Return the cached value for `key`, creating it on a miss. Entries are kept
+ * in insertion order and the oldest is evicted once `limit` is exceeded.
+ */
+export function cached<T>(
+  cache: Map<string, T>,
+  key: string,
+  create: () => T,
+  limit = CACHE_LIMIT
+): T {
+  if (cache.has(key)) return cache.get(key)!;
+  const value = create();
+  cache.set(key, value);
+  if (cache.size > limit) cache.delete(cache.keys().next().value!);
+  return value;
+}
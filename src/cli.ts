@@ -0,0 +1,238 @@
+import { readFileSync, writeFileSync } from "fs";
+import { QueryObject } from "./types";
+import { QueryParseError } from "./errors";
+import { parseQuery } from "./parser";
+import { shape } from "./shape";
+import { generateTypes } from "./typegen";
+import { loadOpenApi, shapeOpenApi } from "./openapi";
+
+/** File and console access, injectable for tests */
+export interface CliIO {
+  readFile(path: string): string;
+  writeFile(path: string, content: string): void;
+  stdout(text: string): void;
+  stderr(text: string): void;
+  /** Read all of standard input */
+  readStdin?(): string;
+}
+
+const nodeIO: CliIO = {
+  readFile: (path) => readFileSync(path, "utf8"),
+  writeFile: (path, content) => writeFileSync(path, content),
+  stdout: (text) => process.stdout.write(text),
+  stderr: (text) => process.stderr.write(text),
+  readStdin: () => readFileSync(0, "utf8"),
+};
+
+/** Exit code for a query or fragment that does not parse */
+const PARSE_FAILED = 2;
+
+const USAGE = `Usage: rest-shape <command> [options]
+
+Commands:
+  shape <query> [input-file]
+                       Shape JSON from a file or stdin; <query> is query text
+                       or a .shape file
+  types [query-file]   Generate a TypeScript interface for a query's result
+  openapi <spec-file>  Derive shaped response schemas from x-rest-shape queries
+
+Options for shape:
+  --fragments <file>   .shape file of fragment definitions, or a JSON object
+                       of fragment names to fragment query text
+  --vars <json>        Variables as a JSON object, or @file to read them
+  --ndjson             Read and write one JSON document per line
+  --pretty             Indent the output
+  --check              Only check that the query parses
+
+  Exits with 1 on invalid input or options and 2 when the query does not
+  parse, printing the error location.
+
+Options for types:
+  --query <text>       Query text (instead of a query file)
+  --sample <file>      JSON sample of the input payload
+  --schema <file>      JSON Schema of the input payload
+  --name <name>        Interface name (default: ShapeResult)
+  --out <file>         Write to a file instead of stdout
+
+Options for openapi:
+  --out <file>         Write the derived document instead of printing it
+`;
+
+/**
+ * Split argv into `--flag value` pairs and positional arguments. Flags named
+ * in `switches` take no value and are set to "true".
+ */
+function parseFlags(args: string[], switches: string[] = []) {
+  const flags: Record<string, string> = {};
+  const positional: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith("--")) positional.push(arg);
+    else if (switches.includes(arg.slice(2))) flags[arg.slice(2)] = "true";
+    else if (arg.includes("=")) {
+      const [name, ...value] = arg.slice(2).split("=");
+      flags[name] = value.join("=");
+    } else if (i + 1 < args.length) flags[arg.slice(2)] = args[++i];
+    else throw new Error(`Missing value for ${arg}`);
+  }
+  return { flags, positional };
+}
+
+/** Parse JSON from `source`, naming it in the error */
+function parseJson(text: string, source: string) {
+  try {
+    return JSON.parse(text);
+  } catch (err) {
+    throw new Error(`Invalid JSON in ${source}: ${(err as Error).message}`);
+  }
+}
+
+/** `--vars` as inline JSON or `@file` */
+function readVariables(value: string, io: CliIO): Record<string, any> {
+  const variables = value.startsWith("@")
+    ? parseJson(io.readFile(value.slice(1)), value.slice(1))
+    : parseJson(value, "--vars");
+  if (typeof variables !== "object" || variables === null)
+    throw new Error("--vars must be a JSON object");
+  return variables;
+}
+
+/** Parse query text strictly, reporting where it fails as `source` */
+function parseOrReport(
+  text: string,
+  source: string,
+  io: CliIO
+): QueryObject | undefined {
+  try {
+    return parseQuery(text, undefined, { strict: true });
+  } catch (err) {
+    if (!(err instanceof QueryParseError)) throw err;
+    io.stderr(`rest-shape: ${source}: ${err.message}\n${err.snippet}\n`);
+  }
+}
+
+/** Shape a JSON document, or NDJSON line by line, and print the results */
+function shapeCommand(args: string[], io: CliIO): number {
+  const { flags, positional } = parseFlags(args, ["ndjson", "pretty", "check"]);
+  const [queryArg, inputFile] = positional;
+  if (queryArg === undefined)
+    throw new Error("Provide a query or a .shape query file");
+
+  const fragments: Record<string, QueryObject> = {};
+  if (flags.fragments?.endsWith(".shape")) {
+    const definitions = parseOrReport(
+      io.readFile(flags.fragments),
+      flags.fragments,
+      io
+    );
+    if (!definitions) return PARSE_FAILED;
+    Object.assign(fragments, definitions.__definitions);
+  } else if (flags.fragments) {
+    const texts = parseJson(io.readFile(flags.fragments), flags.fragments);
+    for (const [name, text] of Object.entries(texts)) {
+      const fragment = parseOrReport(
+        String(text),
+        `${flags.fragments} (fragment "${name}")`,
+        io
+      );
+      if (!fragment) return PARSE_FAILED;
+      fragments[name] = fragment;
+    }
+  }
+  const fromFile = queryArg.endsWith(".shape");
+  const query = parseOrReport(
+    fromFile ? io.readFile(queryArg) : queryArg,
+    fromFile ? queryArg : "query",
+    io
+  );
+  if (!query) return PARSE_FAILED;
+  if (flags.check) return 0;
+
+  const options = {
+    fragments,
+    strict: true,
+    variables: flags.vars ? readVariables(flags.vars, io) : undefined,
+  };
+  const fromStdin = inputFile === undefined || inputFile === "-";
+  if (fromStdin && !io.readStdin) throw new Error("Provide an input file");
+  const input = fromStdin ? io.readStdin!() : io.readFile(inputFile);
+  const source = fromStdin ? "stdin" : inputFile;
+
+  if (flags.ndjson) {
+    input.split("\n").forEach((line, i) => {
+      if (!line.trim()) return;
+      const data = parseJson(line, `${source} line ${i + 1}`);
+      io.stdout(JSON.stringify(shape(data, query, options)) + "\n");
+    });
+  } else {
+    const result = shape(parseJson(input, source), query, options);
+    io.stdout(
+      JSON.stringify(result, null, flags.pretty ? 2 : undefined) + "\n"
+    );
+  }
+  return 0;
+}
+
+function typesCommand(args: string[], io: CliIO) {
+  const { flags, positional } = parseFlags(args);
+  const query =
+    flags.query ?? (positional[0] ? io.readFile(positional[0]) : undefined);
+  if (query === undefined)
+    throw new Error("Provide a query file or --query <text>");
+
+  const output = generateTypes(query, {
+    sample: flags.sample ? JSON.parse(io.readFile(flags.sample)) : undefined,
+    schema: flags.schema ? JSON.parse(io.readFile(flags.schema)) : undefined,
+    name: flags.name,
+  });
+  if (flags.out) io.writeFile(flags.out, output);
+  else io.stdout(output);
+}
+
+/** Write the derived document; validation errors fail the command */
+function openapiCommand(args: string[], io: CliIO): number {
+  const { flags, positional } = parseFlags(args);
+  if (!positional[0]) throw new Error("Provide an OpenAPI document");
+
+  const { document, operations } = shapeOpenApi(
+    loadOpenApi(positional[0], io.readFile)
+  );
+  const errors = operations.flatMap(({ method, path, errors }) =>
+    errors.map((error) => `${method.toUpperCase()} ${path}: ${error.message}\n`)
+  );
+  if (errors.length) {
+    errors.forEach((error) => io.stderr(error));
+    return 1;
+  }
+  const output = JSON.stringify(document, null, 2) + "\n";
+  if (flags.out) io.writeFile(flags.out, output);
+  else io.stdout(output);
+  return 0;
+}
+
+/** Run the CLI and return its exit code */
+export function main(argv: string[], io: CliIO = nodeIO): number {
+  const [command, ...args] = argv;
+  try {
+    switch (command) {
+      case "shape":
+        return shapeCommand(args, io);
+      case "types":
+        typesCommand(args, io);
+        return 0;
+      case "openapi":
+        return openapiCommand(args, io);
+      case undefined:
+      case "help":
+      case "--help":
+        io.stdout(USAGE);
+        return 0;
+      default:
+        io.stderr(`Unknown command "${command}"\n\n${USAGE}`);
+        return 1;
+    }
+  } catch (err) {
+    io.stderr(`rest-shape: ${(err as Error).message}\n`);
+    return 1;
+  }
+}
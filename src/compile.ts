@@ -0,0 +1,79 @@
+import { EvaluationMode, QueryObject, ShapeOptions, Shaper } from "./types";
+import { Evaluators, shapeRoot } from "./shape";
+import { parseQueryCached } from "./parser";
+import {
+  compileField,
+  compileTransform,
+  isDirectiveObject,
+  isReservedKey,
+} from "./utils";
+
+/** Compile every expression in a QueryObject into `evaluators` */
+function precompile(
+  queryObj: QueryObject,
+  mode: EvaluationMode,
+  evaluators: Evaluators
+) {
+  const { fields, transforms } = evaluators;
+  const field = (expr: string | undefined) =>
+    expr && !fields.has(expr) && fields.set(expr, compileField(expr, mode));
+
+  for (const key in queryObj) {
+    if (isReservedKey(key)) continue;
+    const value = queryObj[key];
+
+    if (typeof value === "string") {
+      field(value);
+    } else if (isDirectiveObject(value)) {
+      [value.expr, value.skipIf, value.includeIf, value.filter].forEach(field);
+      value.path?.split("||").forEach((part) => field(part.trim()));
+      if (value.transform && !transforms.has(value.transform))
+        transforms.set(
+          value.transform,
+          compileTransform(value.transform, mode)
+        );
+      if (value.nested) precompile(value.nested, mode, evaluators);
+    } else if (typeof value === "object" && value !== null) {
+      precompile(value, mode, evaluators);
+    }
+  }
+  for (const inline of queryObj.__inlineFragments ?? []) {
+    [inline.skipIf, inline.includeIf].forEach(field);
+    precompile(inline.nested, mode, evaluators);
+  }
+  Object.values(queryObj.__definitions ?? {}).forEach((fragment) =>
+    precompile(fragment, mode, evaluators)
+  );
+}
+
+/**
+ * Compile a query into a reusable `(data, variables?) => result` shaper. The
+ * query text is parsed once (and cached by text) and every expression in it
+ * is compiled up front and kept by the shaper, so repeated calls only pay for
+ * the shaping itself, however many other queries run in between. Variables
+ * passed to the shaper override `options.variables`.
+ */
+export function compile(
+  query: string | QueryObject,
+  options: ShapeOptions = {}
+): Shaper {
+  const mode = options.mode ?? "unsafe";
+  const queryObj =
+    typeof query === "string" ? parseQueryCached(query, options) : query;
+
+  const evaluators: Evaluators = { fields: new Map(), transforms: new Map() };
+  precompile(queryObj, mode, evaluators);
+  Object.values(options.fragments ?? {}).forEach((fragment) =>
+    precompile(fragment, mode, evaluators)
+  );
+
+  return (data, variables) =>
+    shapeRoot(
+      data,
+      queryObj,
+      variables ? { ...options, variables } : options,
+      undefined,
+      false,
+      evaluators
+    );
+}
@@ -0,0 +1,203 @@
+import { QueryObject, ShapeOptions } from "./types";
+import { getByPath, isDirectiveObject, isReservedKey } from "./utils";
+import { parseQueryCached } from "./parser";
+import { shape } from "./shape";
+import { JsonPatchOperation, sameValue, toPointer } from "./patch";
+
+interface DiffScope {
+  fragments: Record<string, QueryObject>;
+  operations: JsonPatchOperation[];
+}
+
+const isPlainObject = (value: any) =>
+  value !== null && typeof value === "object" && !Array.isArray(value);
+
+/** The query of an output field, looking into fragments too */
+function fieldOf(
+  queryObj: QueryObject | undefined,
+  name: string,
+  scope: DiffScope
+): any {
+  if (!queryObj) return undefined;
+  if (!isReservedKey(name) && name in queryObj) return queryObj[name];
+  const fragments = [
+    ...(queryObj.__fragments ?? []).map(
+      (fragment) => scope.fragments[fragment]
+    ),
+    ...(queryObj.__inlineFragments ?? []).map((inline) => inline.nested),
+  ];
+  for (const fragment of fragments) {
+    const field = fieldOf(fragment, name, scope);
+    if (field !== undefined) return field;
+  }
+}
+
+/** Selection of an output field, and the key of its items */
+interface Selection {
+  nested?: QueryObject;
+  key?: string;
+}
+
+function selectionOf(field: any): Selection {
+  if (isDirectiveObject(field))
+    return {
+      nested: field.nested,
+      key: typeof field.key === "string" ? field.key : undefined,
+    };
+  if (typeof field === "object" && field !== null) return { nested: field };
+  return {};
+}
+
+/** Whether every item has a key and no two items share one */
+function hasUniqueKeys(items: any[], key: string) {
+  const keys = items.map((item) => getByPath(item, key));
+  return !keys.includes(null) && new Set(keys).size === keys.length;
+}
+
+function diffValue(
+  before: any,
+  after: any,
+  { nested, key }: Selection,
+  path: string[],
+  scope: DiffScope
+) {
+  if (sameValue(before, after)) return;
+  if (Array.isArray(before) && Array.isArray(after)) {
+    if (
+      key !== undefined &&
+      hasUniqueKeys(before, key) &&
+      hasUniqueKeys(after, key)
+    )
+      diffKeyed(before, after, nested, key, path, scope);
+    else diffIndexed(before, after, nested, path, scope);
+  } else if (isPlainObject(before) && isPlainObject(after)) {
+    diffObject(before, after, nested, path, scope);
+  } else {
+    scope.operations.push({
+      op: "replace",
+      path: toPointer(path),
+      value: after,
+    });
+  }
+}
+
+function diffObject(
+  before: any,
+  after: any,
+  queryObj: QueryObject | undefined,
+  path: string[],
+  scope: DiffScope
+) {
+  for (const name in before)
+    if (!(name in after))
+      scope.operations.push({ op: "remove", path: toPointer([...path, name]) });
+  for (const name in after) {
+    const at = [...path, name];
+    if (name in before)
+      diffValue(
+        before[name],
+        after[name],
+        selectionOf(fieldOf(queryObj, name, scope)),
+        at,
+        scope
+      );
+    else
+      scope.operations.push({
+        op: "add",
+        path: toPointer(at),
+        value: after[name],
+      });
+  }
+}
+
+/** Items compared by position: changed in place, added or removed at the end */
+function diffIndexed(
+  before: any[],
+  after: any[],
+  nested: QueryObject | undefined,
+  path: string[],
+  scope: DiffScope
+) {
+  const common = Math.min(before.length, after.length);
+  for (let i = 0; i < common; i++)
+    diffValue(before[i], after[i], { nested }, [...path, String(i)], scope);
+  for (let i = before.length - 1; i >= common; i--)
+    scope.operations.push({
+      op: "remove",
+      path: toPointer([...path, String(i)]),
+    });
+  for (let i = common; i < after.length; i++)
+    scope.operations.push({
+      op: "add",
+      path: toPointer([...path, String(i)]),
+      value: after[i],
+    });
+}
+
+/**
+ * Items matched by key: removed items go first, then each item of `after`
+ * in turn is added or moved into place and diffed against its old version.
+ * Indices in the operations are those of the array as patched so far.
+ */
+function diffKeyed(
+  before: any[],
+  after: any[],
+  nested: QueryObject | undefined,
+  key: string,
+  path: string[],
+  scope: DiffScope
+) {
+  const at = (i: number) => toPointer([...path, String(i)]);
+  const wanted = new Set(after.map((item) => getByPath(item, key)));
+  const current = [...before];
+  for (let i = current.length - 1; i >= 0; i--)
+    if (!wanted.has(getByPath(current[i], key))) {
+      scope.operations.push({ op: "remove", path: at(i) });
+      current.splice(i, 1);
+    }
+
+  after.forEach((item, j) => {
+    const id = getByPath(item, key);
+    const i = current.findIndex((old) => getByPath(old, key) === id);
+    if (i === -1) {
+      scope.operations.push({ op: "add", path: at(j), value: item });
+      current.splice(j, 0, item);
+      return;
+    }
+    if (i !== j) {
+      scope.operations.push({ op: "move", from: at(i), path: at(j) });
+      current.splice(j, 0, ...current.splice(i, 1));
+    }
+    diffValue(current[j], item, { nested }, [...path, String(j)], scope);
+  });
+}
+
+/**
+ * Shape two snapshots of the same data with one query and return the RFC
+ * 6902 patch turning the first shaped result into the second. Array items are
+ * matched by the `key` argument of their field, e.g. `items(key: "id")`, and
+ * by index when there is none or an item's key is missing or repeated.
+ */
+export function shapeDiff(
+  before: any,
+  after: any,
+  query: string | QueryObject,
+  options: ShapeOptions = {}
+): JsonPatchOperation[] {
+  const queryObj =
+    typeof query === "string"
+      ? parseQueryCached(query, { strict: options.strict })
+      : query;
+  const scope: DiffScope = {
+    fragments: { ...options.fragments, ...queryObj.__definitions },
+    operations: [],
+  };
+  diffValue(
+    shape(before, queryObj, options),
+    shape(after, queryObj, options),
+    { nested: queryObj },
+    [],
+    scope
+  );
+  return scope.operations;
+}
@@ -0,0 +1,115 @@
+import {
+  AppliedDirective,
+  DirectiveDefinition,
+  DirectivePhase,
+  QueryDirective,
+} from "./types";
+import { resolveArg } from "./variables";
+import { aggregate, AGGREGATIONS } from "./aggregate";
+
+const PHASES: DirectivePhase[] = ["before", "after", "array"];
+
+const registry = new Map<string, DirectiveDefinition>();
+let version = 0;
+
+/**
+ * Register a directive usable as `@name(...)` in queries. Registering an
+ * existing name, including a built-in, replaces it.
+ */
+export function registerDirective(
+  name: string,
+  definition: DirectiveDefinition
+) {
+  if (!/^[A-Za-z_]\w*$/.test(name))
+    throw new TypeError(`Invalid directive name "${name}"`);
+  if (!PHASES.includes(definition.phase))
+    throw new TypeError(
+      `Directive @${name} has invalid phase "${definition.phase}"`
+    );
+  registry.set(name, definition);
+  version++;
+}
+
+/** Look up a registered directive by name (without the `@`) */
+export function getDirective(name: string): DirectiveDefinition | undefined {
+  return registry.get(name);
+}
+
+/** Changes whenever the registry does, so parsed queries can be revalidated */
+export function directiveVersion() {
+  return version;
+}
+
+registerDirective("skip", {
+  args: ["if"],
+  phase: "before",
+  apply: (_, args, ctx) => (ctx.evaluate(String(args.if)) ? null : undefined),
+});
+
+registerDirective("include", {
+  args: ["if"],
+  phase: "before",
+  apply: (_, args, ctx) => (ctx.evaluate(String(args.if)) ? undefined : null),
+});
+
+registerDirective("default", {
+  args: ["value"],
+  phase: "after",
+  apply: (value, args) => value ?? args.value,
+});
+
+registerDirective("transform", {
+  args: ["fn"],
+  phase: "after",
+  apply: (value, args, ctx) =>
+    value == null ? value : ctx.transform(String(args.fn), value),
+});
+
+// Runs on arrays after `skip`/`limit`, and on each group when grouping
+registerDirective("aggregate", {
+  args: AGGREGATIONS,
+  phase: "after",
+  apply: (value, args) =>
+    Array.isArray(value) ? aggregate(value, args) : null,
+});
+
+// Replaces how the field is resolved; `shape` does the lookup itself
+registerDirective("join", {
+  args: ["from", "on", "many"],
+  phase: "before",
+  apply: () => undefined,
+});
+
+// Switches the data and root a field is resolved in; `shape` does that itself
+registerDirective("source", {
+  args: ["name"],
+  phase: "before",
+  apply: () => undefined,
+});
+
+/**
+ * Directives on a field in the order they run: built-ins lowered to
+ * QueryDirective keys first, then custom ones as written.
+ */
+export function directivesOf(field: QueryDirective): AppliedDirective[] {
+  const applied: AppliedDirective[] = [];
+  if (field.skipIf) applied.push({ name: "skip", args: { if: field.skipIf } });
+  if (field.includeIf)
+    applied.push({ name: "include", args: { if: field.includeIf } });
+  if (field.default !== undefined)
+    applied.push({ name: "default", args: { value: field.default } });
+  if (field.transform)
+    applied.push({ name: "transform", args: { fn: field.transform } });
+  return field.directives ? [...applied, ...field.directives] : applied;
+}
+
+/** Resolve `$name` references in directive arguments */
+export function resolveDirectiveArgs(
+  args: Record<string, any>,
+  variables: Record<string, any>
+) {
+  const resolved: Record<string, any> = {};
+  for (const [name, value] of Object.entries(args))
+    resolved[name] = resolveArg(value, variables);
+  return resolved;
+}
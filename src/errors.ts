@@ -0,0 +1,122 @@
+/** Syntax error in a query or expression, with its position in the source */
+export class QueryParseError extends SyntaxError {
+  /** What the parser was looking for, e.g. `Expected "}"` */
+  readonly expected: string;
+  /** The offending input, e.g. `")"` or `end of input` */
+  readonly found: string;
+  readonly line: number;
+  readonly column: number;
+  /** The source line with a caret under the error column */
+  readonly snippet: string;
+
+  constructor(
+    info: { expected: string; found: string; line: number; column: number },
+    source = ""
+  ) {
+    super(
+      `${info.expected} but found ${info.found} at line ${info.line}, column ${info.column}`
+    );
+    this.name = "QueryParseError";
+    this.expected = info.expected;
+    this.found = info.found;
+    this.line = info.line;
+    this.column = info.column;
+
+    const text = source.split("\n")[info.line - 1] ?? "";
+    this.snippet = `${text}\n${" ".repeat(Math.max(info.column - 1, 0))}^`;
+  }
+}
+
+/** A supplied query variable is missing or does not match its declared type */
+export class QueryVariableError extends TypeError {
+  /** Variable name without the leading `$` */
+  readonly variable: string;
+
+  constructor(variable: string, message: string) {
+    super(message);
+    this.name = "QueryVariableError";
+    this.variable = variable;
+  }
+}
+
+/** A field argument names something the shaping options do not provide */
+export class QueryArgumentError extends TypeError {
+  /** Name of the argument, e.g. `envelope` */
+  readonly argument: string;
+
+  constructor(argument: string, message: string) {
+    super(message);
+    this.name = "QueryArgumentError";
+    this.argument = argument;
+  }
+}
+
+/** A field matched more than one key under the `unique` autoResolve policy */
+export class AmbiguousKeyError extends Error {
+  readonly key: string;
+  /** Dot-paths of every match, shallowest first */
+  readonly paths: string[];
+
+  constructor(key: string, paths: string[]) {
+    super(
+      `Ambiguous field "${key}": found at ${paths
+        .map((path) => `"${path}"`)
+        .join(", ")}`
+    );
+    this.name = "AmbiguousKeyError";
+    this.key = key;
+    this.paths = paths;
+  }
+}
+
+/** A fragment spread names no known fragment, or spreads itself in a cycle */
+export class QueryFragmentError extends Error {
+  /** Name of the spread fragment */
+  readonly fragment: string;
+
+  constructor(fragment: string, message: string) {
+    super(message);
+    this.name = "QueryFragmentError";
+    this.fragment = fragment;
+  }
+}
+
+/** A query selects something the input schema does not have */
+export class QueryValidationError extends Error {
+  /** Dot-path of the offending field in the result, e.g. `posts.author` */
+  readonly path: string;
+  /** Position of the field in the query text, when validated from text */
+  readonly line?: number;
+  readonly column?: number;
+
+  constructor(
+    message: string,
+    path: string,
+    loc?: { line: number; column: number }
+  ) {
+    super(
+      loc ? `${message} at line ${loc.line}, column ${loc.column}` : message
+    );
+    this.name = "QueryValidationError";
+    this.path = path;
+    this.line = loc?.line;
+    this.column = loc?.column;
+  }
+}
+
+/** Why a registry refused a request */
+export type PersistedQueryErrorCode =
+  | "PERSISTED_QUERY_NOT_FOUND"
+  | "PERSISTED_QUERY_HASH_MISMATCH"
+  | "QUERY_NOT_REGISTERED";
+
+/** A query a QueryRegistry cannot or may not resolve */
+export class PersistedQueryError extends Error {
+  readonly code: PersistedQueryErrorCode;
+
+  constructor(code: PersistedQueryErrorCode, message: string) {
+    super(message);
+    this.name = "PersistedQueryError";
+    this.code = code;
+  }
+}
@@ -0,0 +1,783 @@
+import { Token, tokenize } from "./lexer";
+import { QueryParseError } from "./errors";
+import { cached } from "./cache";
+import type { Helpers } from "./types";
+
+export type ExpressionNode =
+  | { type: "Literal"; value: any }
+  | { type: "Identifier"; name: string }
+  | {
+      type: "Member";
+      object: ExpressionNode;
+      property: ExpressionNode;
+      computed: boolean;
+      optional: boolean;
+    }
+  | {
+      type: "Call";
+      callee: ExpressionNode;
+      args: ExpressionNode[];
+      optional: boolean;
+    }
+  | { type: "Unary"; operator: string; argument: ExpressionNode }
+  | {
+      type: "Binary" | "Logical";
+      operator: string;
+      left: ExpressionNode;
+      right: ExpressionNode;
+    }
+  | {
+      type: "Conditional";
+      test: ExpressionNode;
+      consequent: ExpressionNode;
+      alternate: ExpressionNode;
+    }
+  | { type: "Array"; elements: ExpressionNode[] }
+  | { type: "Object"; properties: { key: string; value: ExpressionNode }[] }
+  | { type: "Arrow"; params: string[]; body: ExpressionNode }
+  | { type: "Chain"; expression: ExpressionNode }
+  | {
+      type: "Pipe";
+      input: ExpressionNode;
+      name: string;
+      args: ExpressionNode[];
+    };
+
+const BINARY_PRECEDENCE: Record<string, number> = {
+  "??": 1,
+  "||": 2,
+  "&&": 3,
+  "==": 4,
+  "!=": 4,
+  "===": 4,
+  "!==": 4,
+  "<": 5,
+  ">": 5,
+  "<=": 5,
+  ">=": 5,
+  "+": 6,
+  "-": 6,
+  "*": 7,
+  "/": 7,
+  "%": 7,
+  "**": 8,
+};
+
+const hasOwn = (target: any, key: string) =>
+  Object.prototype.hasOwnProperty.call(target, key);
+
+const LITERAL_NAMES: Record<string, any> = {
+  true: true,
+  false: false,
+  null: null,
+  undefined: undefined,
+};
+
+/**
+ * Recursive-descent parser for the JavaScript expression subset allowed in
+ * queries. It works on a shared token stream so the query parser can hand
+ * over at any position and pick up again where the expression ends.
+ */
+export class ExpressionParser {
+  constructor(private tokens: Token[], public pos = 0, private source = "") {}
+
+  peek(offset = 0): Token {
+    return this.tokens[Math.min(this.pos + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    if (token.type !== "eof") this.pos++;
+    return token;
+  }
+
+  private isPunct(text: string, offset = 0) {
+    const token = this.peek(offset);
+    return token.type === "punct" && token.text === text;
+  }
+
+  private eat(text: string) {
+    if (!this.isPunct(text)) return false;
+    this.pos++;
+    return true;
+  }
+
+  private expect(text: string) {
+    if (!this.eat(text)) this.fail(`Expected "${text}"`);
+  }
+
+  fail(expected: string, token = this.peek()): never {
+    const found = token.type === "eof" ? "end of input" : `"${token.text}"`;
+    throw new QueryParseError(
+      { expected, found, line: token.line, column: token.column },
+      this.source
+    );
+  }
+
+  /** `input | helper(args)`, the loosest-binding operator */
+  parseExpression(): ExpressionNode {
+    let node = this.parseConditional();
+    while (this.eat("|")) {
+      const name = this.next();
+      if (name.type !== "name") this.fail("Expected helper name", name);
+      const args = this.eat("(") ? this.parseList(")") : [];
+      node = { type: "Pipe", input: node, name: name.text, args };
+    }
+    return node;
+  }
+
+  private parseConditional(): ExpressionNode {
+    const test = this.parseBinary(1);
+    if (!this.eat("?")) return test;
+    const consequent = this.parseExpression();
+    this.expect(":");
+    const alternate = this.parseExpression();
+    return { type: "Conditional", test, consequent, alternate };
+  }
+
+  private parseBinary(minPrecedence: number): ExpressionNode {
+    let left = this.parseUnary();
+    for (;;) {
+      const token = this.peek();
+      const precedence =
+        token.type === "punct" ? BINARY_PRECEDENCE[token.text] : undefined;
+      if (precedence === undefined || precedence < minPrecedence) return left;
+      this.pos++;
+      const operator = token.text;
+      // `**` is right-associative, everything else groups to the left
+      const right = this.parseBinary(
+        operator === "**" ? precedence : precedence + 1
+      );
+      const type =
+        operator === "&&" || operator === "||" || operator === "??"
+          ? "Logical"
+          : "Binary";
+      left = { type, operator, left, right };
+    }
+  }
+
+  private parseUnary(): ExpressionNode {
+    const token = this.peek();
+    if (
+      (token.type === "punct" && ["!", "-", "+"].includes(token.text)) ||
+      (token.type === "name" && token.text === "typeof")
+    ) {
+      this.pos++;
+      return {
+        type: "Unary",
+        operator: token.text,
+        argument: this.parseUnary(),
+      };
+    }
+    return this.parsePostfix();
+  }
+
+  private parsePostfix(): ExpressionNode {
+    let node = this.parsePrimary();
+    let optionalChain = false;
+
+    for (;;) {
+      if (this.eat(".")) {
+        node = this.member(node, false);
+      } else if (this.eat("?.")) {
+        optionalChain = true;
+        if (this.eat("[")) node = this.computedMember(node, true);
+        else if (this.eat("(")) node = this.call(node, true);
+        else node = this.member(node, true);
+      } else if (this.eat("[")) {
+        node = this.computedMember(node, false);
+      } else if (this.eat("(")) {
+        node = this.call(node, false);
+      } else {
+        break;
+      }
+    }
+
+    return optionalChain ? { type: "Chain", expression: node } : node;
+  }
+
+  private member(object: ExpressionNode, optional: boolean): ExpressionNode {
+    const token = this.next();
+    if (token.type !== "name") this.fail("Expected property name", token);
+    return {
+      type: "Member",
+      object,
+      property: { type: "Literal", value: token.text },
+      computed: false,
+      optional,
+    };
+  }
+
+  private computedMember(
+    object: ExpressionNode,
+    optional: boolean
+  ): ExpressionNode {
+    const property = this.parseExpression();
+    this.expect("]");
+    return { type: "Member", object, property, computed: true, optional };
+  }
+
+  private call(callee: ExpressionNode, optional: boolean): ExpressionNode {
+    const args = this.parseList(")");
+    return { type: "Call", callee, args, optional };
+  }
+
+  private parseList(close: string): ExpressionNode[] {
+    const items: ExpressionNode[] = [];
+    while (!this.eat(close)) {
+      items.push(this.parseExpression());
+      if (!this.eat(",")) {
+        this.expect(close);
+        break;
+      }
+    }
+    return items;
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.peek();
+
+    if (token.type === "number" || token.type === "string") {
+      this.pos++;
+      return { type: "Literal", value: token.value };
+    }
+
+    if (token.type === "name") {
+      this.pos++;
+      if (hasOwn(LITERAL_NAMES, token.text))
+        return { type: "Literal", value: LITERAL_NAMES[token.text] };
+      if (this.eat("=>"))
+        return {
+          type: "Arrow",
+          params: [token.text],
+          body: this.parseExpression(),
+        };
+      return { type: "Identifier", name: token.text };
+    }
+
+    if (this.isPunct("(")) {
+      const params = this.arrowParams();
+      if (params)
+        return { type: "Arrow", params, body: this.parseExpression() };
+      this.pos++;
+      const inner = this.parseExpression();
+      this.expect(")");
+      return inner;
+    }
+
+    if (this.eat("[")) {
+      return { type: "Array", elements: this.parseList("]") };
+    }
+
+    if (this.eat("{")) {
+      const properties: { key: string; value: ExpressionNode }[] = [];
+      while (!this.eat("}")) {
+        const keyToken = this.next();
+        if (keyToken.type !== "name" && keyToken.type !== "string")
+          this.fail("Expected property name", keyToken);
+        const key = keyToken.type === "string" ? keyToken.value : keyToken.text;
+        const value: ExpressionNode = this.eat(":")
+          ? this.parseExpression()
+          : { type: "Identifier", name: key };
+        properties.push({ key, value });
+        if (!this.eat(",")) {
+          this.expect("}");
+          break;
+        }
+      }
+      return { type: "Object", properties };
+    }
+
+    this.fail("Expected expression");
+  }
+
+  /** Consume `(a, b) =>` when the parenthesis starts an arrow function */
+  private arrowParams(): string[] | null {
+    const params: string[] = [];
+    let offset = 1;
+    for (;;) {
+      const token = this.peek(offset);
+      if (token.type === "punct" && token.text === ")") break;
+      if (token.type !== "name") return null;
+      params.push(token.text);
+      offset++;
+      if (this.isPunct(",", offset)) offset++;
+      else if (!this.isPunct(")", offset)) return null;
+    }
+    if (!this.isPunct("=>", offset + 1)) return null;
+    this.pos += offset + 2;
+    return params;
+  }
+}
+
+/** Parse a standalone expression string into an AST */
+export function parseExpression(source: string): ExpressionNode {
+  const parser = new ExpressionParser(tokenize(source), 0, source);
+  const node = parser.parseExpression();
+  if (parser.peek().type !== "eof") parser.fail("Expected end of expression");
+  return node;
+}
+
+/**
+ * Rewrite pipes into `__pipe(__helpers, "name", input, ...args)` calls so the
+ * unsafe `Function` evaluator can run them. Sources without a pipe, or that
+ * use JavaScript beyond the expression subset, are returned unchanged.
+ */
+export function toJavaScript(source: string): string {
+  if (!/(^|[^|])\|([^|]|$)/.test(source)) return source;
+  let node: ExpressionNode;
+  try {
+    node = parseExpression(source);
+  } catch {
+    return source;
+  }
+  let piped = false;
+
+  const print = (node: ExpressionNode): string => {
+    switch (node.type) {
+      case "Literal":
+        return node.value === undefined
+          ? "undefined"
+          : JSON.stringify(node.value);
+      case "Identifier":
+        return node.name;
+      case "Member": {
+        const object =
+          node.object.type === "Literal"
+            ? `(${print(node.object)})`
+            : print(node.object);
+        // Dotted properties are string literals, so `a.b` prints as `a["b"]`
+        return `${object}${node.optional ? "?.[" : "["}${print(
+          node.property
+        )}]`;
+      }
+      case "Call":
+        return `${print(node.callee)}${node.optional ? "?.(" : "("}${node.args
+          .map(print)
+          .join(", ")})`;
+      case "Chain":
+        return print(node.expression);
+      case "Unary":
+        return node.operator === "typeof"
+          ? `(typeof ${print(node.argument)})`
+          : `(${node.operator}${print(node.argument)})`;
+      case "Binary":
+      case "Logical":
+        return `(${print(node.left)} ${node.operator} ${print(node.right)})`;
+      case "Conditional":
+        return `(${print(node.test)} ? ${print(node.consequent)} : ${print(
+          node.alternate
+        )})`;
+      case "Array":
+        return `[${node.elements.map(print).join(", ")}]`;
+      case "Object":
+        return `({${node.properties
+          .map(({ key, value }) => `${JSON.stringify(key)}: ${print(value)}`)
+          .join(", ")}})`;
+      case "Arrow":
+        return `((${node.params.join(", ")}) => ${print(node.body)})`;
+      case "Pipe":
+        piped = true;
+        return `__pipe(__helpers, ${[
+          JSON.stringify(node.name),
+          print(node.input),
+          ...node.args.map(print),
+        ].join(", ")})`;
+    }
+  };
+
+  const js = print(node);
+  return piped ? js : source;
+}
+
+// ======================================================
+// Sandboxed evaluation
+// ======================================================
+
+const BLOCKED_PROPERTIES = new Set([
+  "constructor",
+  "prototype",
+  "__proto__",
+  "__defineGetter__",
+  "__defineSetter__",
+  "__lookupGetter__",
+  "__lookupSetter__",
+]);
+
+const STRING_METHODS = new Set([
+  "at",
+  "charAt",
+  "charCodeAt",
+  "concat",
+  "endsWith",
+  "includes",
+  "indexOf",
+  "lastIndexOf",
+  "localeCompare",
+  "normalize",
+  "padEnd",
+  "padStart",
+  "repeat",
+  "replace",
+  "replaceAll",
+  "slice",
+  "split",
+  "startsWith",
+  "substring",
+  "toLowerCase",
+  "toString",
+  "toUpperCase",
+  "trim",
+  "trimEnd",
+  "trimStart",
+]);
+
+const NUMBER_METHODS = new Set([
+  "toFixed",
+  "toLocaleString",
+  "toPrecision",
+  "toString",
+]);
+
+const ARRAY_METHODS = new Set([
+  "at",
+  "concat",
+  "every",
+  "filter",
+  "find",
+  "findIndex",
+  "flat",
+  "flatMap",
+  "includes",
+  "indexOf",
+  "join",
+  "lastIndexOf",
+  "map",
+  "reduce",
+  "slice",
+  "some",
+]);
+
+const DATE_METHODS = new Set([
+  "getDate",
+  "getDay",
+  "getFullYear",
+  "getHours",
+  "getMinutes",
+  "getMonth",
+  "getSeconds",
+  "getTime",
+  "toISOString",
+  "toLocaleDateString",
+  "toLocaleString",
+  "toLocaleTimeString",
+]);
+
+/** Globals reachable from safe expressions; everything else is `undefined` */
+const SAFE_GLOBALS: Record<string, any> = {
+  Math,
+  JSON,
+  Number,
+  String,
+  Boolean,
+  isNaN,
+  isFinite,
+  parseInt,
+  parseFloat,
+  NaN,
+  Infinity,
+};
+
+/** Nodes one evaluation may visit, arrow bodies included */
+const MAX_STEPS = 1_000_000;
+
+/** Longest string or array a method call or `+` may build */
+const MAX_LENGTH = 10_000_000;
+
+/** Steps left in the running evaluation; unlimited outside of one */
+let stepsLeft = Infinity;
+
+/** Evaluate `node` with a fresh step budget */
+function evaluateBudgeted(
+  node: ExpressionNode,
+  scopes: any[],
+  helpers?: Helpers
+) {
+  const outer = stepsLeft;
+  stepsLeft = MAX_STEPS;
+  try {
+    return evaluate(node, scopes, helpers);
+  } finally {
+    stepsLeft = outer;
+  }
+}
+
+function checkLength(length: number) {
+  if (length > MAX_LENGTH)
+    throw new RangeError(`Expression built a value over ${MAX_LENGTH} long`);
+}
+
+/** Check the length of a string or array an expression built */
+function checkSize(value: any) {
+  if (typeof value === "string" || Array.isArray(value))
+    checkLength(value.length);
+}
+
+/** Check what `repeat`, `pad*` and `join` would build, before building it */
+function checkGrowth(target: any, fn: any, args: any[]) {
+  if (fn === String.prototype.repeat)
+    checkLength(String(target).length * Number(args[0]));
+  else if (fn === String.prototype.padStart || fn === String.prototype.padEnd)
+    checkLength(Number(args[0]));
+  else if (fn === Array.prototype.join) {
+    const separator = args[0] === undefined ? 1 : String(args[0]).length;
+    checkLength(
+      target.reduce(
+        (length: number, item: any) =>
+          length + separator + (typeof item === "string" ? item.length : 1),
+        0
+      )
+    );
+  }
+}
+
+/** Thrown inside an optional chain to stop at the first nullish link */
+const SHORT_CIRCUIT = Symbol("shortCircuit");
+
+function lookup(name: string, scopes: any[]) {
+  for (const scope of scopes) {
+    if (scope != null && hasOwn(scope, name)) return scope[name];
+  }
+  return hasOwn(SAFE_GLOBALS, name) ? SAFE_GLOBALS[name] : undefined;
+}
+
+function readProperty(target: any, key: any) {
+  const name = String(key);
+  if (BLOCKED_PROPERTIES.has(name) || !hasOwn(target, name)) return undefined;
+  return target[name];
+}
+
+function resolveMethod(target: any, name: string) {
+  if (BLOCKED_PROPERTIES.has(name)) return undefined;
+  if (hasOwn(target, name) && typeof target[name] === "function")
+    return target[name];
+
+  const allowed =
+    typeof target === "string"
+      ? STRING_METHODS
+      : typeof target === "number"
+      ? NUMBER_METHODS
+      : Array.isArray(target)
+      ? ARRAY_METHODS
+      : target instanceof Date
+      ? DATE_METHODS
+      : undefined;
+  return allowed?.has(name) ? target[name] : undefined;
+}
+
+function memberTarget(
+  node: ExpressionNode & { type: "Member" },
+  scopes: any[],
+  helpers: Helpers
+) {
+  const target = evaluate(node.object, scopes, helpers);
+  const key = evaluate(node.property, scopes, helpers);
+  if (target == null) {
+    if (node.optional) throw SHORT_CIRCUIT;
+    throw new TypeError(
+      `Cannot read properties of ${target} (reading '${String(key)}')`
+    );
+  }
+  return { target, key };
+}
+
+function binary(operator: string, left: any, right: any) {
+  switch (operator) {
+    case "+": {
+      const sum = left + right;
+      checkSize(sum);
+      return sum;
+    }
+    case "-":
+      return left - right;
+    case "*":
+      return left * right;
+    case "/":
+      return left / right;
+    case "%":
+      return left % right;
+    case "**":
+      return left ** right;
+    case "==":
+      return left == right;
+    case "!=":
+      return left != right;
+    case "===":
+      return left === right;
+    case "!==":
+      return left !== right;
+    case "<":
+      return left < right;
+    case ">":
+      return left > right;
+    case "<=":
+      return left <= right;
+    case ">=":
+      return left >= right;
+  }
+  throw new SyntaxError(`Unsupported operator "${operator}"`);
+}
+
+/**
+ * Evaluate an expression AST without `Function` or `eval`. Identifiers are
+ * looked up as own properties of `scopes` (first match wins), then in a small
+ * set of safe globals. Only own properties and whitelisted methods of
+ * strings, numbers, arrays and dates are reachable. Inside a compiled
+ * expression, steps and the length of built strings and arrays are bounded.
+ */
+export function evaluate(
+  node: ExpressionNode,
+  scopes: any[],
+  helpers: Helpers = {}
+): any {
+  if (--stepsLeft < 0)
+    throw new RangeError("Expression exceeded its evaluation budget");
+  switch (node.type) {
+    case "Literal":
+      return node.value;
+
+    case "Identifier":
+      return lookup(node.name, scopes);
+
+    case "Member": {
+      const { target, key } = memberTarget(node, scopes, helpers);
+      return readProperty(target, key);
+    }
+
+    case "Call": {
+      let fn: any;
+      let thisArg: any;
+      if (node.callee.type === "Member") {
+        const { target, key } = memberTarget(node.callee, scopes, helpers);
+        thisArg = target;
+        fn = resolveMethod(target, String(key));
+      } else {
+        fn = evaluate(node.callee, scopes, helpers);
+      }
+      if (fn == null && node.optional) throw SHORT_CIRCUIT;
+      if (typeof fn !== "function")
+        throw new TypeError("Expression is not a callable function");
+      const args = node.args.map((arg) => evaluate(arg, scopes, helpers));
+      checkGrowth(thisArg, fn, args);
+      const result = fn.apply(thisArg, args);
+      checkSize(result);
+      return result;
+    }
+
+    case "Chain":
+      try {
+        return evaluate(node.expression, scopes, helpers);
+      } catch (err) {
+        if (err === SHORT_CIRCUIT) return undefined;
+        throw err;
+      }
+
+    case "Unary": {
+      const value = evaluate(node.argument, scopes, helpers);
+      if (node.operator === "!") return !value;
+      if (node.operator === "-") return -value;
+      if (node.operator === "+") return +value;
+      return typeof value;
+    }
+
+    case "Logical": {
+      const left = evaluate(node.left, scopes, helpers);
+      if (node.operator === "&&")
+        return left && evaluate(node.right, scopes, helpers);
+      if (node.operator === "||")
+        return left || evaluate(node.right, scopes, helpers);
+      return left ?? evaluate(node.right, scopes, helpers);
+    }
+
+    case "Binary":
+      return binary(
+        node.operator,
+        evaluate(node.left, scopes, helpers),
+        evaluate(node.right, scopes, helpers)
+      );
+
+    case "Conditional":
+      return evaluate(node.test, scopes, helpers)
+        ? evaluate(node.consequent, scopes, helpers)
+        : evaluate(node.alternate, scopes, helpers);
+
+    case "Array":
+      return node.elements.map((element) => evaluate(element, scopes, helpers));
+
+    case "Object": {
+      const result: Record<string, any> = {};
+      for (const { key, value } of node.properties) {
+        if (!BLOCKED_PROPERTIES.has(key))
+          result[key] = evaluate(value, scopes, helpers);
+      }
+      return result;
+    }
+
+    case "Arrow":
+      return (...args: any[]) => {
+        const locals: Record<string, any> = {};
+        node.params.forEach((param, i) => (locals[param] = args[i]));
+        return evaluate(node.body, [locals, ...scopes], helpers);
+      };
+
+    case "Pipe":
+      return callHelper(
+        helpers,
+        node.name,
+        evaluate(node.input, scopes, helpers),
+        node.args.map((arg) => evaluate(arg, scopes, helpers))
+      );
+  }
+}
+
+/** Call the helper a pipe stage names, with the piped value first */
+export function callHelper(
+  helpers: Helpers,
+  name: string,
+  input: any,
+  args: any[]
+) {
+  const fn = hasOwn(helpers, name) ? helpers[name] : undefined;
+  if (typeof fn !== "function") throw new TypeError(`Unknown helper "${name}"`);
+  return fn(input, ...args);
+}
+
+export type CompiledExpression = (scopes: any[], helpers?: Helpers) => any;
+
+const compiledExpressions = new Map<string, CompiledExpression>();
+
+/**
+ * Parse an expression once and return an evaluator for it. Results are cached
+ * by source text; a syntax error is cached too and rethrown on every call.
+ */
+export function compileExpression(source: string): CompiledExpression {
+  return cached(compiledExpressions, source, () => {
+    try {
+      const node = parseExpression(source);
+      return (scopes, helpers) => evaluateBudgeted(node, scopes, helpers);
+    } catch (err) {
+      return () => {
+        throw err;
+      };
+    }
+  });
+}
+
+/** Parse and evaluate an expression string in the sandbox */
+export function evaluateExpression(
+  source: string,
+  scopes: any[],
+  helpers?: Helpers
+): any {
+  return compileExpression(source)(scopes, helpers);
+}
@@ -0,0 +1,92 @@
+import { Helpers } from "./types";
+import { getByPath } from "./utils";
+
+const words = (value: any) =>
+  String(value)
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean);
+
+const capitalize = (word: string) =>
+  word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+
+const pad = (value: number, length = 2) => String(value).padStart(length, "0");
+
+/** Tokens understood by the `date` helper, longest first */
+const DATE_TOKENS: Record<string, (date: Date) => string> = {
+  YYYY: (date) => String(date.getUTCFullYear()),
+  MM: (date) => pad(date.getUTCMonth() + 1),
+  DD: (date) => pad(date.getUTCDate()),
+  HH: (date) => pad(date.getUTCHours()),
+  mm: (date) => pad(date.getUTCMinutes()),
+  ss: (date) => pad(date.getUTCSeconds()),
+  SSS: (date) => pad(date.getUTCMilliseconds(), 3),
+};
+
+/**
+ * Format a date (Date, ISO string or timestamp) in UTC. Text inside
+ * `[brackets]` is kept as is.
+ */
+function date(value: any, pattern = "YYYY-MM-DD") {
+  if (value == null) return null;
+  const parsed = value instanceof Date ? value : new Date(value);
+  if (isNaN(parsed.getTime())) return null;
+  return String(pattern).replace(
+    /\[([^\]]*)]|YYYY|SSS|MM|DD|HH|mm|ss/g,
+    (match, literal) => literal ?? DATE_TOKENS[match](parsed)
+  );
+}
+
+/** Round to `digits` decimal places (half away from zero) */
+function round(value: any, digits = 0) {
+  const number = Number(value);
+  if (value == null || isNaN(number)) return null;
+  const factor = 10 ** digits;
+  return (Math.sign(number) * Math.round(Math.abs(number) * factor)) / factor;
+}
+
+/** Locale-aware number formatting with fixed decimal places */
+function number(value: any, digits = 0, locale = "en-US") {
+  const parsed = Number(value);
+  if (value == null || isNaN(parsed)) return null;
+  return parsed.toLocaleString(locale, {
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+  });
+}
+
+const asList = (value: any): any[] =>
+  Array.isArray(value) ? value : value == null ? [] : [value];
+
+/**
+ * Built-in helpers, available as pipe stages (`name | upper`) and as calls
+ * (`upper(name)`) in both evaluation modes. Helpers that get `null` or
+ * `undefined` input return `null`, except `default`.
+ */
+export const STANDARD_HELPERS: Helpers = {
+  upper: (value) => (value == null ? null : String(value).toUpperCase()),
+  lower: (value) => (value == null ? null : String(value).toLowerCase()),
+  capitalize: (value) => (value == null ? null : capitalize(String(value))),
+  camelCase: (value) =>
+    value == null
+      ? null
+      : words(value)
+          .map((word, i) => (i ? capitalize(word) : word.toLowerCase()))
+          .join(""),
+  snakeCase: (value) =>
+    value == null ? null : words(value).join("_").toLowerCase(),
+  kebabCase: (value) =>
+    value == null ? null : words(value).join("-").toLowerCase(),
+  titleCase: (value) =>
+    value == null ? null : words(value).map(capitalize).join(" "),
+  trim: (value) => (value == null ? null : String(value).trim()),
+  number,
+  round,
+  date,
+  join: (value, separator = ", ") =>
+    value == null ? null : asList(value).join(separator),
+  pluck: (value, path: string) =>
+    value == null ? null : asList(value).map((item) => getByPath(item, path)),
+  uniq: (value) => (value == null ? null : [...new Set(asList(value))]),
+  default: (value, fallback) => value ?? fallback,
+};
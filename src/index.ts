@@ -1,4 +1,67 @@
-export { shape } from "./shape";
-export { parseQuery } from "./parser";
+export { shape, shapeAsync, multiSource } from "./shape";
+export { compile } from "./compile";
+export { parseQuery, parseDocument } from "./parser";
+export {
+  compileExpression,
+  evaluateExpression,
+  parseExpression,
+} from "./expression";
+export {
+  AmbiguousKeyError,
+  PersistedQueryError,
+  QueryArgumentError,
+  QueryFragmentError,
+  QueryParseError,
+  QueryVariableError,
+  QueryValidationError,
+} from "./errors";
+export type { PersistedQueryErrorCode } from "./errors";
+export { registerDirective, getDirective } from "./directives";
+export { STANDARD_HELPERS } from "./helpers";
+export { ENVELOPES, encodeCursor, decodeCursor } from "./paginate";
+export {
+  createResponseShaper,
+  expressShape,
+  fastifyShape,
+  koaShape,
+} from "./middleware";
+export type {
+  ShapeErrorBody,
+  ShapeMiddlewareOptions,
+  ShapeOutcome,
+} from "./middleware";
+export { QueryRegistry } from "./registry";
+export type {
+  PersistedQueryRequest,
+  QueryRegistryOptions,
+  RegisteredQuery,
+  ShapeFileSystem,
+} from "./registry";
+export { unshape } from "./unshape";
+export type { NotInvertible, UnshapeOptions, UnshapeResult } from "./unshape";
+export type { JsonPatchOperation } from "./patch";
+export { shapeDiff } from "./diff";
+export { shapeStream, toNdjson } from "./stream";
+export type { JsonTextStream } from "./stream";
+export { generateTypes, resultSchema, schemaToTypeScript } from "./typegen";
+export type { TypegenOptions } from "./typegen";
+export { validateQuery } from "./validate";
+export type { ValidateOptions } from "./validate";
+export {
+  SHAPE_EXTENSION,
+  loadOpenApi,
+  shapedOperations,
+  shapeOpenApi,
+  toOpenApi30,
+} from "./openapi";
+export type {
+  OpenApiDocument,
+  OpenApiOptions,
+  ShapeExtension,
+  ShapedOperation,
+} from "./openapi";
+export { inferSchema } from "./schema";
+export type { JsonSchema, JsonSchemaType } from "./schema";
+export type { InferShape } from "./infer";
 export * from "./types";
 export * from "./utils";
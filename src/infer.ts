@@ -0,0 +1,186 @@
+// Compile-time result types for literal query strings.
+//
+// Only the plain subset of the query language is understood here: field
+// names, `alias: dot.path` and nested `{ }` blocks, with `#` comments and
+// commas. Any other syntax (arguments, directives, computed expressions,
+// fragments, headers) makes the whole result `any`, which is what `shape`
+// returned before.
+
+type Whitespace = " " | "\n" | "\t" | "\r" | ",";
+
+type Letter =
+  | "a"
+  | "b"
+  | "c"
+  | "d"
+  | "e"
+  | "f"
+  | "g"
+  | "h"
+  | "i"
+  | "j"
+  | "k"
+  | "l"
+  | "m"
+  | "n"
+  | "o"
+  | "p"
+  | "q"
+  | "r"
+  | "s"
+  | "t"
+  | "u"
+  | "v"
+  | "w"
+  | "x"
+  | "y"
+  | "z";
+
+type NameChar =
+  | Letter
+  | Uppercase<Letter>
+  | "0"
+  | "1"
+  | "2"
+  | "3"
+  | "4"
+  | "5"
+  | "6"
+  | "7"
+  | "8"
+  | "9"
+  | "_"
+  | "$";
+
+type Nullish = null | undefined;
+
+type IsAny<T> = 0 extends 1 & T ? true : false;
+
+/** Marker for input the type-level parser does not understand */
+interface ParseError {
+  readonly __parseError: true;
+}
+
+type TrimStart<S extends string> = S extends `${Whitespace}${infer Rest}`
+  ? TrimStart<Rest>
+  : S extends `#${string}\n${infer Rest}`
+  ? TrimStart<Rest>
+  : S extends `#${string}`
+  ? ""
+  : S;
+
+/** Split `S` into its longest prefix made of `Chars` and the rest */
+type ReadWhile<
+  S extends string,
+  Chars extends string,
+  Acc extends string = ""
+> = S extends `${infer C}${infer Rest}`
+  ? C extends Chars
+    ? ReadWhile<Rest, Chars, `${Acc}${C}`>
+    : [Acc, S]
+  : [Acc, S];
+
+/** Selection map: output key -> source path and optional sub-selection */
+type Field<Path extends string, Sel> = { path: Path; sel: Sel };
+
+type ParseTarget<
+  Name extends string,
+  S extends string
+> = S extends `:${infer Rest}`
+  ? ReadWhile<TrimStart<Rest>, NameChar | "."> extends [
+      infer Path extends string,
+      infer After extends string
+    ]
+    ? Path extends ""
+      ? ParseError
+      : [Path, TrimStart<After>]
+    : ParseError
+  : [Name, S];
+
+type ParseBlock<S extends string> = S extends `{${infer Inner}`
+  ? ParseFields<Inner> extends [infer Sel, infer Rest extends string]
+    ? Rest extends `}${infer After}`
+      ? [Sel, After]
+      : ParseError
+    : ParseError
+  : [null, S];
+
+/** Parse fields until the end of input or a closing brace (left unconsumed) */
+type ParseFields<
+  S extends string,
+  Acc = {}
+> = TrimStart<S> extends infer T extends string
+  ? T extends "" | `}${string}`
+    ? [Acc, T]
+    : ReadWhile<T, NameChar> extends [
+        infer Name extends string,
+        infer Rest extends string
+      ]
+    ? Name extends ""
+      ? ParseError
+      : ParseTarget<Name, TrimStart<Rest>> extends [
+          infer Path extends string,
+          infer AfterTarget extends string
+        ]
+      ? ParseBlock<AfterTarget> extends [
+          infer Sel,
+          infer AfterBlock extends string
+        ]
+        ? ParseFields<AfterBlock, Acc & { [K in Name]: Field<Path, Sel> }>
+        : ParseError
+      : ParseError
+    : ParseError
+  : ParseError;
+
+/** Value of `key` in `T` the way `getByPath` reads it; unknown keys may be auto-resolved, so they are `any` */
+type Get<T, K extends string> = T extends Nullish
+  ? null
+  : T extends readonly any[]
+  ? any
+  : K extends keyof T
+  ? T[K]
+  : any;
+
+type GetPath<T, P extends string> = IsAny<T> extends true
+  ? any
+  : P extends `${infer Head}.${infer Rest}`
+  ? GetPath<Get<T, Head>, Rest>
+  : Get<T, P>;
+
+/** Missing values come back as `null`, never `undefined` */
+type NullForUndefined<V> = IsAny<V> extends true
+  ? any
+  : undefined extends V
+  ? Exclude<V, undefined> | null
+  : V;
+
+type ApplySelection<V, Sel> = IsAny<V> extends true
+  ? any
+  : V extends Nullish
+  ? null
+  : V extends readonly (infer Item)[]
+  ? ShapeObject<Item, Sel>[]
+  : V extends object
+  ? ShapeObject<V, Sel>
+  : V;
+
+type ShapeObject<T, Sel> = {
+  [K in keyof Sel]: Sel[K] extends Field<infer Path, infer Sub>
+    ? Sub extends null
+      ? NullForUndefined<GetPath<T, Path>>
+      : ApplySelection<GetPath<T, Path>, Sub>
+    : never;
+};
+
+/**
+ * Result type of `shape(data, query)` for a literal query string, or `any`
+ * when the query is not a literal or uses syntax beyond plain selections.
+ */
+export type InferShape<T, Q extends string> = string extends Q
+  ? any
+  : // Fragment definitions would read as plain fields
+  Q extends `${string}fragment ${string} on ${string}{${string}`
+  ? any
+  : ParseFields<Q> extends [infer Sel, ""]
+  ? ShapeObject<T, Sel>
+  : any;
@@ -0,0 +1,37 @@
+const JOIN_ON =
+  /^\s*([\w$]+(?:\.[\w$]+)*)\s*={1,3}\s*([\w$]+(?:\.[\w$]+)*)\s*$/;
+
+/** Paths a join compares: `local` on the item, `foreign` on joined items */
+export interface JoinKeys {
+  local: string;
+  foreign: string;
+}
+
+/** Parse a join condition such as `"authorId = id"` */
+export function parseJoinOn(on: string): JoinKeys {
+  const match = String(on).match(JOIN_ON);
+  if (!match)
+    throw new SyntaxError(
+      `Invalid join condition "${on}", expected "localPath = foreignPath"`
+    );
+  return { local: match[1], foreign: match[2] };
+}
+
+/**
+ * Items matching `key` in an index of joined items by their foreign key. An
+ * array of keys matches each in turn; `many` returns every match, otherwise
+ * the first match (or `null`) per key. `null` keys match nothing.
+ */
+export function lookupJoin(
+  index: Map<any, any[]>,
+  key: any,
+  many: boolean
+): any {
+  if (Array.isArray(key))
+    return key.flatMap((k) => {
+      const matches = k == null ? [] : index.get(k) ?? [];
+      return many ? matches : matches.slice(0, 1);
+    });
+  const matches = key == null ? [] : index.get(key) ?? [];
+  return many ? matches : matches[0] ?? null;
+}
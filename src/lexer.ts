@@ -0,0 +1,185 @@
+import { QueryParseError } from "./errors";
+
+export type TokenType = "name" | "number" | "string" | "punct" | "eof";
+
+export interface Token {
+  type: TokenType;
+  /** Raw source text (strings keep their quotes) */
+  text: string;
+  /** Decoded literal value for `number` and `string` tokens */
+  value?: any;
+  start: number;
+  end: number;
+  line: number;
+  column: number;
+}
+
+const PUNCTUATORS = [
+  "...",
+  "===",
+  "!==",
+  "**",
+  "?.",
+  "??",
+  "==",
+  "!=",
+  "<=",
+  ">=",
+  "&&",
+  "||",
+  "=>",
+  "{",
+  "}",
+  "(",
+  ")",
+  "[",
+  "]",
+  ",",
+  ":",
+  ".",
+  "?",
+  "!",
+  "+",
+  "-",
+  "*",
+  "/",
+  "%",
+  "<",
+  ">",
+  "=",
+  "@",
+  "|",
+];
+
+const ESCAPES: Record<string, string> = {
+  n: "\n",
+  r: "\r",
+  t: "\t",
+  b: "\b",
+  f: "\f",
+  v: "\v",
+  "0": "\0",
+};
+
+const isNameStart = (c: string) => /[A-Za-z_$]/.test(c);
+const isNamePart = (c: string) => /[\w$]/.test(c);
+const isDigit = (c: string) => c >= "0" && c <= "9";
+
+/**
+ * Split query or expression source into tokens, skipping whitespace and `#`
+ * comments. When an `errors` array is given, invalid input is recorded there
+ * and skipped instead of throwing.
+ */
+export function tokenize(source: string, errors?: QueryParseError[]): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+  let line = 1;
+  let lineStart = 0;
+
+  const push = (type: TokenType, start: number, value?: any) => {
+    tokens.push({
+      type,
+      text: source.slice(start, pos),
+      value,
+      start,
+      end: pos,
+      line,
+      column: start - lineStart + 1,
+    });
+  };
+
+  const fail = (expected: string, found: string, at: number) => {
+    const error = new QueryParseError(
+      { expected, found, line, column: at - lineStart + 1 },
+      source
+    );
+    if (!errors) throw error;
+    errors.push(error);
+  };
+
+  while (pos < source.length) {
+    const c = source[pos];
+
+    if (c === "\n") {
+      pos++;
+      line++;
+      lineStart = pos;
+      continue;
+    }
+    if (/\s/.test(c)) {
+      pos++;
+      continue;
+    }
+    if (c === "#") {
+      while (pos < source.length && source[pos] !== "\n") pos++;
+      continue;
+    }
+
+    const start = pos;
+
+    if (isNameStart(c)) {
+      while (pos < source.length && isNamePart(source[pos])) pos++;
+      push("name", start);
+      continue;
+    }
+
+    if (isDigit(c) || (c === "." && isDigit(source[pos + 1] ?? ""))) {
+      const match = source
+        .slice(pos)
+        .match(/^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/)!;
+      pos += match[0].length;
+      push("number", start, Number(match[0]));
+      continue;
+    }
+
+    if (c === '"' || c === "'") {
+      let value = "";
+      pos++;
+      while (source[pos] !== c) {
+        if (pos >= source.length || source[pos] === "\n") {
+          fail(`Expected closing ${c}`, "end of line", start);
+          break;
+        }
+        if (source[pos] === "\\") {
+          const next = source[pos + 1];
+          if (next === "u") {
+            value += String.fromCharCode(
+              parseInt(source.slice(pos + 2, pos + 6), 16)
+            );
+            pos += 6;
+          } else {
+            value += ESCAPES[next] ?? next;
+            pos += 2;
+          }
+          continue;
+        }
+        value += source[pos++];
+      }
+      if (source[pos] === c) pos++;
+      push("string", start, value);
+      continue;
+    }
+
+    const punct = PUNCTUATORS.find((p) => source.startsWith(p, pos));
+    if (punct) {
+      // `a?.5:1` is a ternary, not optional chaining
+      if (punct === "?." && isDigit(source[pos + 2] ?? "")) pos += 1;
+      else pos += punct.length;
+      push("punct", start);
+      continue;
+    }
+
+    fail("Expected a valid token", `"${c}"`, start);
+    pos++;
+  }
+
+  tokens.push({
+    type: "eof",
+    text: "",
+    start: pos,
+    end: pos,
+    line,
+    column: pos - lineStart + 1,
+  });
+  return tokens;
+}
@@ -0,0 +1,324 @@
+import { SelectionNode, ShapeOptions, Shaper } from "./types";
+import {
+  AmbiguousKeyError,
+  QueryArgumentError,
+  QueryFragmentError,
+  QueryParseError,
+  QueryVariableError,
+} from "./errors";
+import { lowerDocument, parseDocument } from "./parser";
+import { compile } from "./compile";
+import { cached } from "./cache";
+import { isVariableNode } from "./variables";
+import { QueryRegistry } from "./registry";
+
+export interface ShapeMiddlewareOptions extends ShapeOptions {
+  /** Query-string parameter holding the query (default "shape") */
+  param?: string;
+  /** Request header holding the query (default "x-rest-shape") */
+  header?: string;
+  /** Queries clients select by name, e.g. `?shape=summary` */
+  queries?: Record<string, string>;
+  /** Refuse query text; only names of `queries` are accepted */
+  namedOnly?: boolean;
+  /**
+   * Registered queries clients select by name or SHA-256 id. A locked
+   * registry refuses everything else.
+   */
+  registry?: QueryRegistry;
+  /**
+   * Dot-paths of the data query text may select; an entry allows everything
+   * beneath it. Such queries may only use fields, dot-path aliases and the
+   * `limit`, `skip`, `orderBy` and pagination arguments.
+   */
+  fields?: string[];
+  /** Deepest selection nesting allowed in query text */
+  maxDepth?: number;
+  /** Largest shaped body, in bytes of JSON, sent to the client */
+  maxBytes?: number;
+}
+
+/** Body to send for a response, and whether shaping was refused */
+export type ShapeOutcome =
+  | { status: 200; body: any }
+  | { status: 400; body: ShapeErrorBody };
+
+/** Body of a 400 response; the position is set for parse errors */
+export interface ShapeErrorBody {
+  error: string;
+  line?: number;
+  column?: number;
+}
+
+/** Arguments queries restricted by `fields` may use */
+const SAFE_ARGS = new Set([
+  "limit",
+  "skip",
+  "orderBy",
+  "first",
+  "after",
+  "page",
+  "pageSize",
+  "envelope",
+]);
+const PATH = /^[A-Za-z_$][\w$]*(?:\.[\w$]+)*$/;
+
+class QueryRefusedError extends Error {}
+
+/** Nesting depth of a selection set; top-level fields are depth 1 */
+function depthOf(selections: SelectionNode[]): number {
+  return Math.max(
+    0,
+    ...selections.map((selection) =>
+      selection.kind === "InlineFragment"
+        ? depthOf(selection.selections)
+        : selection.kind === "Field" && selection.selections
+        ? 1 + depthOf(selection.selections)
+        : 1
+    )
+  );
+}
+
+/**
+ * Refuse selections reading data outside `fields`. Restricted queries are
+ * shaped with `pathsOnly`, so every field is a path within its parent.
+ */
+function checkFields(
+  selections: SelectionNode[],
+  parent: string,
+  fields: string[]
+) {
+  const allowed = (path: string) =>
+    fields.some((field) => path === field || path.startsWith(field + "."));
+  const contains = (path: string) =>
+    allowed(path) || fields.some((field) => field.startsWith(path + "."));
+
+  for (const selection of selections) {
+    if (selection.kind === "FragmentSpread")
+      throw new QueryRefusedError(
+        `Fragment "...${selection.name}" is not allowed`
+      );
+    if (selection.kind === "InlineFragment")
+      throw new QueryRefusedError("Inline fragments are not allowed");
+    const { name, source, directives, dataSource } = selection;
+    if (directives.length || dataSource || (source && !PATH.test(source)))
+      throw new QueryRefusedError(`Field "${name}" is not allowed`);
+    const unsafe = Object.keys(selection.arguments).find(
+      (arg) => !SAFE_ARGS.has(arg) || isVariableNode(selection.arguments[arg])
+    );
+    if (unsafe)
+      throw new QueryRefusedError(`Argument "${unsafe}" is not allowed`);
+
+    const target = source ?? name;
+    const path = parent ? `${parent}.${target}` : target;
+    const permitted = selection.selections ? contains : allowed;
+    if (!permitted(path))
+      throw new QueryRefusedError(`Field "${path}" is not allowed`);
+
+    const orderBy = selection.arguments.orderBy;
+    if (typeof orderBy === "string")
+      for (const key of orderBy.split(",")) {
+        const sortPath = `${path}.${key.trim().split(/\s+/)[0]}`;
+        if (!allowed(sortPath))
+          throw new QueryRefusedError(`Field "${sortPath}" is not allowed`);
+      }
+    if (selection.selections) checkFields(selection.selections, path, fields);
+  }
+}
+
+const byteLength = (value: any) =>
+  new TextEncoder().encode(JSON.stringify(value) ?? "").length;
+
+/**
+ * Framework-independent core of the middleware: shape a response body with
+ * a client-supplied query, or explain why not. Array bodies are shaped item
+ * by item. Query text is parsed strictly and checked once per distinct text;
+ * expressions run in "safe" mode unless `options.mode` says otherwise.
+ */
+export function createResponseShaper(options: ShapeMiddlewareOptions = {}) {
+  const {
+    param,
+    header,
+    queries = {},
+    namedOnly,
+    registry,
+    fields,
+    maxDepth,
+    maxBytes,
+    ...rest
+  } = options;
+  const shapeOptions: ShapeOptions = {
+    ...rest,
+    mode: rest.mode ?? "safe",
+    strict: true,
+    // Restricted queries only read paths within each field's parent
+    ...(fields && { autoResolve: "off", pathsOnly: true }),
+  };
+  const named = new Map<string, Shaper>(
+    Object.entries(queries).map(([name, query]) => [
+      name,
+      compile(query, shapeOptions),
+    ])
+  );
+  const checked = new Map<string, Shaper | ShapeErrorBody>();
+
+  const check = (text: string): Shaper | ShapeErrorBody => {
+    try {
+      const doc = parseDocument(text, { strict: true });
+      if (maxDepth !== undefined && depthOf(doc.selections) > maxDepth)
+        throw new QueryRefusedError(
+          `Query is nested deeper than ${maxDepth} levels`
+        );
+      // Variables could carry paths past the checks below
+      if (fields && doc.variables)
+        throw new QueryRefusedError("Variables are not allowed");
+      if (fields) checkFields(doc.selections, "", fields);
+      return compile(lowerDocument(doc), shapeOptions);
+    } catch (err) {
+      if (err instanceof QueryParseError)
+        return { error: err.message, line: err.line, column: err.column };
+      if (err instanceof QueryRefusedError) return { error: err.message };
+      throw err;
+    }
+  };
+
+  return (body: any, query: string | undefined): ShapeOutcome => {
+    if (!query || body === null || typeof body !== "object")
+      return { status: 200, body };
+
+    let shaper = named.get(query) ?? registry?.get(query)?.shape;
+    // Query text is the client's own, so whatever it breaks is a bad request
+    const fromText = !shaper;
+    if (!shaper) {
+      if (namedOnly || registry?.lock)
+        return { status: 400, body: { error: `Unknown query "${query}"` } };
+      const result = cached(checked, query, () => check(query));
+      if (typeof result !== "function") return { status: 400, body: result };
+      shaper = result;
+    }
+
+    let shaped: any;
+    try {
+      // List endpoints shape each item
+      shaped = Array.isArray(body)
+        ? body.map((item) => shaper!(item))
+        : shaper(body);
+    } catch (err) {
+      if (
+        (fromText && err instanceof Error) ||
+        err instanceof QueryVariableError ||
+        err instanceof AmbiguousKeyError ||
+        err instanceof QueryFragmentError ||
+        err instanceof QueryArgumentError
+      )
+        return { status: 400, body: { error: err.message } };
+      throw err;
+    }
+    if (maxBytes !== undefined && byteLength(shaped) > maxBytes)
+      return {
+        status: 400,
+        body: { error: `Shaped response is larger than ${maxBytes} bytes` },
+      };
+    return { status: 200, body: shaped };
+  };
+}
+
+/** First value of a query-string parameter or header */
+const first = (value: unknown) =>
+  typeof value === "string"
+    ? value
+    : Array.isArray(value) && typeof value[0] === "string"
+    ? value[0]
+    : undefined;
+
+/** The query a request asks for: the query parameter, else the header */
+function requestQuery(
+  req: { url?: string; query?: any; headers?: Record<string, any> },
+  options: ShapeMiddlewareOptions
+): string | undefined {
+  const param = options.param ?? "shape";
+  const fromQuery =
+    req.query && typeof req.query === "object"
+      ? first(req.query[param])
+      : req.url
+      ? new URL(req.url, "http://localhost").searchParams.get(param) ??
+        undefined
+      : undefined;
+  return (
+    fromQuery ??
+    first(req.headers?.[(options.header ?? "x-rest-shape").toLowerCase()])
+  );
+}
+
+/**
+ * Express (or Connect-style) middleware shaping bodies sent with `res.json`
+ * by the `?shape=` parameter or `X-Rest-Shape` header of the request.
+ */
+export function expressShape(options: ShapeMiddlewareOptions = {}) {
+  const shapeBody = createResponseShaper(options);
+  return (
+    req: { url?: string; query?: any; headers?: Record<string, any> },
+    res: { json(body: any): any; status(code: number): any },
+    next: () => void
+  ) => {
+    const query = requestQuery(req, options);
+    if (query) {
+      const json = res.json;
+      res.json = function (this: any, body: any) {
+        const outcome = shapeBody(body, query);
+        if (outcome.status !== 200) res.status(outcome.status);
+        return json.call(this, outcome.body);
+      };
+    }
+    next();
+  };
+}
+
+/** Koa middleware shaping `ctx.body` once downstream middleware has set it */
+export function koaShape(options: ShapeMiddlewareOptions = {}) {
+  const shapeBody = createResponseShaper(options);
+  return async (
+    ctx: {
+      url?: string;
+      query?: any;
+      headers?: Record<string, any>;
+      body?: any;
+      status: number;
+    },
+    next: () => Promise<any>
+  ) => {
+    await next();
+    const query = requestQuery(ctx, options);
+    const body = ctx.body;
+    if (!query || isRaw(body)) return;
+    const outcome = shapeBody(body, query);
+    ctx.body = outcome.body;
+    if (outcome.status !== 200) ctx.status = outcome.status;
+  };
+}
+
+/**
+ * Fastify `preSerialization` hook shaping reply payloads:
+ * `app.addHook("preSerialization", fastifyShape(options))`.
+ */
+export function fastifyShape(options: ShapeMiddlewareOptions = {}) {
+  const shapeBody = createResponseShaper(options);
+  return async (
+    request: { url?: string; query?: any; headers?: Record<string, any> },
+    reply: { code(status: number): any },
+    payload: any
+  ) => {
+    const query = requestQuery(request, options);
+    if (!query) return payload;
+    const outcome = shapeBody(payload, query);
+    if (outcome.status !== 200) reply.code(outcome.status);
+    return outcome.body;
+  };
+}
+
+/** Buffers and streams are sent as they are */
+const isRaw = (body: any) =>
+  body == null ||
+  typeof body !== "object" ||
+  ArrayBuffer.isView(body) ||
+  typeof body.pipe === "function";
@@ -0,0 +1,218 @@
+import { AutoResolvePolicy, QueryObject } from "./types";
+import { QueryValidationError } from "./errors";
+import { JsonSchema, derefSchema, inlineRefs, typesList } from "./schema";
+import { resultSchema } from "./typegen";
+import { validateQuery } from "./validate";
+
+/** Operation extension holding the query that shapes its response */
+export const SHAPE_EXTENSION = "x-rest-shape";
+
+const METHODS = ["get", "put", "post", "delete", "options", "head", "patch"];
+
+/** `x-rest-shape` value: the query text, or the query and where it applies */
+export type ShapeExtension =
+  | string
+  | {
+      query?: string;
+      /** Query file relative to the document, read by `loadOpenApi` */
+      file?: string;
+      /** Response to shape (default: the first 2xx response) */
+      status?: string;
+      /** Media type to shape (default: `application/json`) */
+      mediaType?: string;
+    };
+
+/** The parts of an OpenAPI 3 document rest-shape reads */
+export interface OpenApiDocument {
+  openapi: string;
+  paths?: Record<string, Record<string, any>>;
+  components?: Record<string, any>;
+  [key: string]: any;
+}
+
+/** An operation whose response is shaped by an `x-rest-shape` query */
+export interface ShapedOperation {
+  /** Lower-case HTTP method */
+  method: string;
+  path: string;
+  operationId?: string;
+  status: string;
+  mediaType: string;
+  query: string;
+  /** Declared response schema the query shapes, with `$ref`s inlined */
+  input: JsonSchema;
+  /** Schema of the shaped response */
+  schema: JsonSchema;
+  /** Problems `validateQuery` found in the query */
+  errors: QueryValidationError[];
+}
+
+export interface OpenApiOptions {
+  fragments?: Record<string, QueryObject>;
+  /** Root search the queries are shaped with (default "depthFirst") */
+  autoResolve?: AutoResolvePolicy;
+}
+
+const DEFAULT_MEDIA_TYPE = "application/json";
+
+/** Every operation of the document with its method and path */
+function operationsOf(document: OpenApiDocument) {
+  return Object.entries(document.paths ?? {}).flatMap(([path, item]) =>
+    METHODS.filter((method) => item?.[method]).map((method) => ({
+      method,
+      path,
+      operation: item[method],
+    }))
+  );
+}
+
+/** Resolve `file` references relative to the document at `path` */
+const relativeTo = (path: string, file: string) =>
+  file.startsWith("/") ? file : path.slice(0, path.lastIndexOf("/") + 1) + file;
+
+/**
+ * Read a JSON OpenAPI 3 document, replacing `x-rest-shape` query files with
+ * their text. `readFile` reads a file as UTF-8, e.g. with `readFileSync`.
+ */
+export function loadOpenApi(
+  path: string,
+  readFile: (path: string) => string
+): OpenApiDocument {
+  const document: OpenApiDocument = JSON.parse(readFile(path));
+  for (const { operation } of operationsOf(document)) {
+    const extension: ShapeExtension | undefined = operation[SHAPE_EXTENSION];
+    if (typeof extension !== "object" || extension?.file === undefined)
+      continue;
+    const { file, ...rest } = extension;
+    operation[SHAPE_EXTENSION] = {
+      ...rest,
+      query: readFile(relativeTo(path, file)),
+    };
+  }
+  return document;
+}
+
+/**
+ * Operations with an `x-rest-shape` query, each validated against its
+ * declared response schema and with the schema of the shaped response.
+ * Throws when an operation has no query or no response schema to shape.
+ */
+export function shapedOperations(
+  document: OpenApiDocument,
+  options: OpenApiOptions = {}
+): ShapedOperation[] {
+  const shaped: ShapedOperation[] = [];
+  for (const { method, path, operation } of operationsOf(document)) {
+    const extension: ShapeExtension | undefined = operation[SHAPE_EXTENSION];
+    if (extension === undefined) continue;
+    const name = `${method.toUpperCase()} ${path}`;
+    const spec =
+      typeof extension === "string" ? { query: extension } : extension;
+    if (typeof spec.query !== "string")
+      throw new Error(
+        spec.file !== undefined
+          ? `${name}: ${SHAPE_EXTENSION} file "${spec.file}" is not loaded, use loadOpenApi`
+          : `${name}: ${SHAPE_EXTENSION} needs a query`
+      );
+
+    const responses = operation.responses ?? {};
+    const status =
+      spec.status ??
+      Object.keys(responses).find((code) => /^2(\d\d|XX)$/.test(code));
+    const mediaType = spec.mediaType ?? DEFAULT_MEDIA_TYPE;
+    const response =
+      status !== undefined ? derefSchema(responses[status], document) : {};
+    const declared = response.content?.[mediaType]?.schema;
+    if (!declared)
+      throw new Error(
+        `${name}: no ${mediaType} schema for response ${status ?? "2xx"}`
+      );
+
+    const input = inlineRefs(declared, document);
+    shaped.push({
+      method,
+      path,
+      operationId: operation.operationId,
+      status: status!,
+      mediaType,
+      query: spec.query,
+      input,
+      schema: resultSchema(spec.query, input, options.fragments),
+      errors: validateQuery(spec.query, input, options),
+    });
+  }
+  return shaped;
+}
+
+/** OpenAPI 3.0 spelling of a schema: `nullable` instead of `null` types */
+export function toOpenApi30(schema: JsonSchema): JsonSchema {
+  const result: JsonSchema = { ...schema };
+  if (schema.properties)
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [
+        key,
+        toOpenApi30(value),
+      ])
+    );
+  if (schema.items) result.items = toOpenApi30(schema.items);
+  if (typeof schema.additionalProperties === "object")
+    result.additionalProperties = toOpenApi30(schema.additionalProperties);
+
+  const union = schema.anyOf ?? schema.oneOf;
+  if (union) {
+    const keyword = schema.anyOf ? "anyOf" : "oneOf";
+    const variants = union.filter(
+      (variant) => !(typesList(variant).length === 1 && variant.type === "null")
+    );
+    if (variants.length < union.length) result.nullable = true;
+    result[keyword] = variants.map(toOpenApi30);
+    if (variants.length === 1) {
+      const only = toOpenApi30(variants[0]);
+      return result.nullable ? { ...only, nullable: true } : only;
+    }
+  }
+
+  const types = typesList(schema);
+  if (types.length > 1 || types.includes("null")) {
+    const rest = types.filter((type) => type !== "null");
+    if (rest.length < types.length) result.nullable = true;
+    if (rest.length === 1) result.type = rest[0];
+    else {
+      delete result.type;
+      if (rest.length) result.anyOf = rest.map((type) => ({ type }));
+    }
+  }
+  return result;
+}
+
+/**
+ * Copy of the document where every shaped operation documents the shaped
+ * response instead of the declared one, together with the operations. The
+ * `x-rest-shape` extensions are removed; shared response components are
+ * left as they are.
+ */
+export function shapeOpenApi(
+  document: OpenApiDocument,
+  options: OpenApiOptions = {}
+): { document: OpenApiDocument; operations: ShapedOperation[] } {
+  const operations = shapedOperations(document, options);
+  const result: OpenApiDocument = JSON.parse(JSON.stringify(document));
+  const legacy = String(document.openapi).startsWith("3.0");
+
+  for (const { method, path, status, mediaType, schema } of operations) {
+    const operation = result.paths![path][method];
+    const response = derefSchema(operation.responses[status], result);
+    operation.responses[status] = {
+      ...response,
+      content: {
+        ...response.content,
+        [mediaType]: {
+          ...response.content[mediaType],
+          schema: legacy ? toOpenApi30(schema) : schema,
+        },
+      },
+    };
+    delete operation[SHAPE_EXTENSION];
+  }
+  return { document: result, operations };
+}
@@ -0,0 +1,107 @@
+import { Envelope, Page, QueryDirective } from "./types";
+
+const CURSOR_PREFIX = "offset:";
+
+/** Page size used when `page` is given without `pageSize` */
+export const DEFAULT_PAGE_SIZE = 20;
+
+/** Opaque cursor for the item at `offset` in the paginated list */
+export function encodeCursor(offset: number): string {
+  return btoa(CURSOR_PREFIX + offset);
+}
+
+/** Offset encoded in a cursor, or `null` if it is not one of ours */
+export function decodeCursor(cursor: string): number | null {
+  let text: string;
+  try {
+    text = atob(String(cursor));
+  } catch {
+    return null;
+  }
+  if (!text.startsWith(CURSOR_PREFIX)) return null;
+  const offset = Number(text.slice(CURSOR_PREFIX.length));
+  return Number.isInteger(offset) && offset >= 0 ? offset : null;
+}
+
+/** Resolved pagination arguments of one array field */
+export interface PageArgs {
+  first?: number;
+  /** Offset decoded from the `after` cursor */
+  after?: number;
+  page?: number;
+  pageSize?: number;
+}
+
+/**
+ * Slice `items` by cursor (`first`, `after`) or page number (`page`,
+ * `pageSize`) arguments. Page numbers start at 1; cursor pagination starts
+ * after the item the cursor points to and takes `first` items, or the rest.
+ */
+export function paginate(items: any[], args: PageArgs): Page {
+  const total = items.length;
+  let offset: number;
+  let size: number;
+  if (args.page != null || args.pageSize != null) {
+    size = Math.max(args.pageSize ?? DEFAULT_PAGE_SIZE, 0);
+    offset = (Math.max(args.page ?? 1, 1) - 1) * size;
+  } else {
+    offset = args.after != null ? args.after + 1 : 0;
+    size = Math.max(args.first ?? total - offset, 0);
+  }
+
+  const slice = items.slice(offset, offset + size);
+  return {
+    items: slice,
+    cursors: slice.map((_, i) => encodeCursor(offset + i)),
+    total,
+    offset,
+    page: size ? Math.floor(offset / size) + 1 : 1,
+    pageSize: size,
+    hasNext: offset + slice.length < total,
+    hasPrevious: offset > 0,
+  };
+}
+
+/** Check if a field has any pagination argument */
+export function isPaginated(field: QueryDirective): boolean {
+  return (
+    field.first !== undefined ||
+    field.after !== undefined ||
+    field.page !== undefined ||
+    field.pageSize !== undefined
+  );
+}
+
+/**
+ * Envelope name of a paginated field: its `envelope` argument, else "page"
+ * for page pagination and "connection" for cursor pagination.
+ */
+export function envelopeName(field: QueryDirective): string {
+  if (field.envelope) return field.envelope;
+  return field.page !== undefined || field.pageSize !== undefined
+    ? "page"
+    : "connection";
+}
+
+/** Built-in envelopes for paginated fields */
+export const ENVELOPES: Record<string, Envelope> = {
+  /** Relay-style `{ edges, pageInfo, totalCount }` */
+  connection: (page) => ({
+    edges: page.items.map((node, i) => ({ cursor: page.cursors[i], node })),
+    pageInfo: {
+      hasNextPage: page.hasNext,
+      hasPreviousPage: page.hasPrevious,
+      startCursor: page.cursors[0] ?? null,
+      endCursor: page.cursors[page.cursors.length - 1] ?? null,
+    },
+    totalCount: page.total,
+  }),
+  /** `{ items, total, page, pageSize, hasNext }` */
+  page: (page) => ({
+    items: page.items,
+    total: page.total,
+    page: page.page,
+    pageSize: page.pageSize,
+    hasNext: page.hasNext,
+  }),
+};
@@ -1,166 +1,835 @@
-import { QueryDirective, QueryObject } from "./types";
-import { parseArgs, evalNestedField } from "./utils";
-
-/** Parse query string into QueryObject with directives */
-export function parseQuery(queryStr: string, rootData?: any): QueryObject {
-  const lines = queryStr
-    .split("\n")
-    .map((l) => l.trim())
-    .filter((l) => l && !l.startsWith("#"));
-
-  const root: QueryObject = {};
-  const stack: { obj: QueryObject }[] = [{ obj: root }];
-
-  for (let line of lines) {
-    line = line.replace(/,$/, "").trim();
-
-    // --- Inline @skip directive ---
-    const skipMatch = line.match(/(\w+)\s+@skip\(if:\s*"(.*)"\)/);
-    if (skipMatch) {
-      const [, fieldName, skipExpr] = skipMatch;
-      const current = stack[stack.length - 1].obj;
-      current[fieldName] = { skipIf: skipExpr };
-      continue;
-    }
-
-    // --- Inline @include directive ---
-    const includeMatch = line.match(/(\w+)\s+@include\(if:\s*"(.*)"\)/);
-    if (includeMatch) {
-      const [, fieldName, includeExpr] = includeMatch;
-      const current = stack[stack.length - 1].obj;
-      current[fieldName] = { includeIf: includeExpr };
-      continue;
-    }
-
-    // --- Inline @default directive ---
-    const inlineDefaultMatch = line.match(/@default\(value:\s*["'](.*)["']\)/);
-    if (inlineDefaultMatch) {
-      const defaultValue = inlineDefaultMatch[1];
-      line = line.replace(inlineDefaultMatch[0], "").trim();
-      const current = stack[stack.length - 1].obj;
-      current[line] = { default: defaultValue };
-      continue;
-    }
-
-    // --- Inline @transform directive ---
-    const transformMatchInline = line.match(
-      /^(\w+)\s*:\s*(\w+)\s+@transform\(fn:\s*"(.*)"\)/
-    );
-    if (transformMatchInline) {
-      const [, alias, path, transformFn] = transformMatchInline;
-      const current = stack[stack.length - 1].obj;
-      current[alias] = { path, transform: transformFn };
-      continue;
-    }
-
-    // --- Inline field blocks ---
-    const inlineMatch = line.match(/^(\w+)(\([^)]*\))?\s*\{\s*([^}]*)\s*\}$/);
-    if (inlineMatch) {
-      const [, key, argsPart, innerFields] = inlineMatch;
-      const nested: QueryObject = {};
-      const directive: QueryDirective = { nested };
-
-      if (argsPart) {
-        const argsStr = argsPart.slice(1, -1).trim();
-        const args = parseArgs(argsStr);
-        Object.assign(directive, args);
-      }
+import {
+  DirectiveNode,
+  DocumentNode,
+  FieldNode,
+  FragmentDefinitionNode,
+  InlineFragment,
+  InlineFragmentNode,
+  JoinSpec,
+  ParseOptions,
+  QueryDirective,
+  QueryField,
+  QueryObject,
+  SelectionNode,
+  SourceLocation,
+  TypeNode,
+  VariableDefinitionNode,
+} from "./types";
+import { ExpressionNode, ExpressionParser } from "./expression";
+import { Token, tokenize } from "./lexer";
+import { QueryParseError } from "./errors";
+import { coerceArgs, isIntegerArg, markDirective } from "./utils";
+import { cached } from "./cache";
+import { isVariableNode, printType, SCALAR_TYPES } from "./variables";
+import { directiveVersion, getDirective } from "./directives";
+import { parseOrderBy } from "./sort";
+import { decodeCursor } from "./paginate";
+import { parseJoinOn } from "./join";
 
-      if (innerFields.trim()) {
-        const fieldRegex = /(\.\.\.\w+|\w+\s*:\s*[\w.@\[\]]+|\w+)/g;
-        const matches = innerFields.match(fieldRegex) ?? [];
-        matches.forEach((f) => {
-          if (f.startsWith("...")) {
-            nested.__fragments = nested.__fragments || [];
-            nested.__fragments.push(f.slice(3));
-            return;
-          }
-          const aliasMatch = f.match(/^(\w+)\s*:\s*(.+)$/);
-          if (aliasMatch) {
-            const [_, alias, expr] = aliasMatch;
-            if (expr.includes(".") || expr.includes("[")) {
-              nested[alias] = (data: any, root: any) =>
-                evalNestedField(expr, data, root);
-            } else {
-              nested[alias] = { path: expr };
-            }
-          } else {
-            nested[f.trim()] = f.trim();
-          }
-        });
-      }
+const VALUE_NAMES: Record<string, any> = {
+  true: true,
+  false: false,
+  null: null,
+};
+
+/** Arguments a field accepts; anything else is reported */
+const FIELD_ARGS = [
+  "limit",
+  "skip",
+  "filter",
+  "orderBy",
+  "locale",
+  "first",
+  "after",
+  "page",
+  "pageSize",
+  "envelope",
+  "groupBy",
+  "groupAs",
+  "key",
+  "discriminator",
+];
+
+const locationOf = (token: Token): SourceLocation => ({
+  line: token.line,
+  column: token.column,
+});
+
+/**
+ * Recursive-descent parser for query documents. In lenient mode syntax errors
+ * inside a selection are recorded and parsing resumes on the next line, so a
+ * single bad field never discards the rest of the query. In strict mode the
+ * first error is thrown.
+ */
+class QueryParser {
+  private tokens: Token[];
+  private pos = 0;
+  private fragments: FragmentDefinitionNode[] = [];
+  /** Variables the header declares; without them any `$name` is accepted */
+  private variables?: VariableDefinitionNode[];
+  readonly errors: QueryParseError[] = [];
+
+  constructor(private source: string, private strict = false) {
+    this.tokens = tokenize(source, strict ? undefined : this.errors);
+  }
+
+  parseDocument(): DocumentNode {
+    const doc: DocumentNode = { kind: "Document", selections: [] };
 
-      const current = stack[stack.length - 1].obj;
-      current[key] = directive;
-      continue;
+    if (this.isHeader()) {
+      this.pos++;
+      if (this.peek().type === "name") doc.name = this.next().text;
+      if (this.isPunct("(")) doc.variables = this.parseVariableDefinitions();
+      this.variables = doc.variables;
+      if (this.eat("{")) {
+        doc.selections = this.parseSelections(false);
+        if (!this.eat("}")) this.report(this.error('Expected "}"'));
+      }
     }
 
-    // --- Fragment spread ---
-    if (line.startsWith("...")) {
-      const fragName = line.slice(3).trim();
-      const current = stack[stack.length - 1].obj;
-      current.__fragments = current.__fragments || [];
-      current.__fragments.push(fragName);
-      continue;
+    doc.selections.push(...this.parseSelections(true));
+    if (this.fragments.length) {
+      this.checkFragmentCycles();
+      doc.fragments = this.fragments;
     }
+    return doc;
+  }
+
+  /** `fragment name on Type {` at the top level starts a definition */
+  private isFragmentDefinition() {
+    const [keyword, name, on, type] = [0, 1, 2, 3].map((i) => this.peek(i));
+    return (
+      keyword.type === "name" &&
+      keyword.text === "fragment" &&
+      name.type === "name" &&
+      on.type === "name" &&
+      on.text === "on" &&
+      type.type === "name" &&
+      this.isPunct("{", 4)
+    );
+  }
 
-    // --- Block start ---
-    if (line.endsWith("{")) {
-      let header = line.slice(0, -1).trim();
-      const nested: QueryObject = {};
-      const directive: QueryDirective = { nested };
+  private parseFragmentDefinition() {
+    const first = this.next();
+    const name = this.next();
+    this.pos++; // `on`
+    const definition: FragmentDefinitionNode = {
+      kind: "FragmentDefinition",
+      name: name.text,
+      typeCondition: this.next().text,
+      selections: [],
+      loc: locationOf(first),
+    };
+    this.expect("{");
+    definition.selections = this.parseSelections(false);
+    if (!this.eat("}")) this.report(this.error('Expected "}"'));
 
-      const skipMatch = header.match(/@skip\(if:\s*"(.*)"\)/);
-      if (skipMatch) {
-        directive.skipIf = skipMatch[1];
-        header = header.replace(skipMatch[0], "").trim();
+    if (this.fragments.some((fragment) => fragment.name === name.text))
+      this.report(this.error("Expected a unique fragment name", name));
+    else this.fragments.push(definition);
+  }
+
+  /**
+   * Report spreads through which a fragment defined in the query includes
+   * itself, and drop them. Fragments passed to `shape` are checked there.
+   */
+  private checkFragmentCycles() {
+    const byName = new Map(this.fragments.map((def) => [def.name, def]));
+    const done = new Set<string>();
+    const visit = (definition: FragmentDefinitionNode, chain: string[]) => {
+      definition.selections = walk(definition.selections, [
+        ...chain,
+        definition.name,
+      ]);
+      done.add(definition.name);
+    };
+    const walk = (
+      selections: SelectionNode[],
+      chain: string[]
+    ): SelectionNode[] =>
+      selections.filter((selection) => {
+        if (selection.kind !== "FragmentSpread") {
+          if (selection.selections)
+            selection.selections = walk(selection.selections, chain);
+          return true;
+        }
+        const index = chain.indexOf(selection.name);
+        if (index !== -1) {
+          const cycle = [...chain.slice(index), selection.name];
+          const found = `"${cycle.map((name) => "..." + name).join(" → ")}"`;
+          this.report(
+            new QueryParseError(
+              {
+                expected: "Expected fragments without cycles",
+                found,
+                ...selection.loc,
+              },
+              this.source
+            )
+          );
+          return false;
+        }
+        const definition = byName.get(selection.name);
+        if (definition && !done.has(definition.name)) visit(definition, chain);
+        return true;
+      });
+    this.fragments.forEach(
+      (definition) => done.has(definition.name) || visit(definition, [])
+    );
+  }
+
+  /**
+   * `query` starts a header only when followed by `($var ...` or by an
+   * operation name, so a top-level field called `query` still works.
+   */
+  private isHeader() {
+    const token = this.peek();
+    if (token.type !== "name" || token.text !== "query") return false;
+    if (this.peek(1).type === "name")
+      return this.isPunct("(", 2) || this.isPunct("{", 2);
+    return this.isPunct("(", 1) && this.peek(2).text.startsWith("$");
+  }
+
+  private parseVariableDefinitions(): VariableDefinitionNode[] {
+    const definitions: VariableDefinitionNode[] = [];
+    this.expect("(");
+    while (!this.eat(")")) {
+      const start = this.peek();
+      try {
+        definitions.push(this.parseVariableDefinition());
+        if (!this.eat(",") && !this.isPunct(")")) this.fail('Expected ")"');
+      } catch (err) {
+        if (!(err instanceof QueryParseError)) throw err;
+        this.report(err);
+        // Resume after the next comma, or stop at the end of the header
+        while (
+          this.peek().type !== "eof" &&
+          !this.isPunct(",") &&
+          !this.isPunct(")") &&
+          !this.isPunct("{")
+        )
+          this.pos++;
+        if (this.isPunct("{") || this.peek().type === "eof") break;
+        if (this.peek() === start) this.pos++;
+        this.eat(",");
       }
-      const includeMatch = header.match(/@include\(if:\s*"(.*)"\)/);
-      if (includeMatch) {
-        directive.includeIf = includeMatch[1];
-        header = header.replace(includeMatch[0], "").trim();
+    }
+    return definitions;
+  }
+
+  private parseVariableDefinition(): VariableDefinitionNode {
+    const token = this.peek();
+    if (token.type !== "name" || !token.text.startsWith("$"))
+      this.fail("Expected variable name");
+    this.pos++;
+    this.expect(":");
+    const definition: VariableDefinitionNode = {
+      kind: "VariableDefinition",
+      name: token.text.slice(1),
+      type: this.parseType(),
+      loc: locationOf(token),
+    };
+    if (this.eat("=")) definition.defaultValue = this.parseValue();
+    return definition;
+  }
+
+  private parseType(): TypeNode {
+    let type: TypeNode;
+    if (this.eat("[")) {
+      type = { kind: "ListType", ofType: this.parseType(), nonNull: false };
+      this.expect("]");
+    } else {
+      const token = this.peek();
+      if (token.type !== "name" || !SCALAR_TYPES.includes(token.text))
+        this.fail(`Expected one of ${SCALAR_TYPES.join(", ")}`);
+      this.pos++;
+      type = { kind: "NamedType", name: token.text, nonNull: false };
+    }
+    type.nonNull = this.eat("!");
+    return type;
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.pos + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    if (token.type !== "eof") this.pos++;
+    return token;
+  }
+
+  private isPunct(text: string, offset = 0) {
+    const token = this.peek(offset);
+    return token.type === "punct" && token.text === text;
+  }
+
+  private eat(text: string) {
+    if (!this.isPunct(text)) return false;
+    this.pos++;
+    return true;
+  }
+
+  private expect(text: string) {
+    if (!this.eat(text)) this.fail(`Expected "${text}"`);
+  }
+
+  private expectName(message: string): Token {
+    if (this.peek().type !== "name") this.fail(message);
+    return this.next();
+  }
+
+  private error(expected: string, token = this.peek()) {
+    const found = token.type === "eof" ? "end of input" : `"${token.text}"`;
+    return new QueryParseError(
+      { expected, found, line: token.line, column: token.column },
+      this.source
+    );
+  }
+
+  private fail(expected: string, token = this.peek()): never {
+    throw this.error(expected, token);
+  }
+
+  /** Throw in strict mode, otherwise record the error and carry on */
+  private report(error: QueryParseError) {
+    if (this.strict) throw error;
+    this.errors.push(error);
+  }
+
+  private parseSelections(topLevel: boolean): SelectionNode[] {
+    const selections: SelectionNode[] = [];
+
+    while (this.peek().type !== "eof") {
+      if (this.isPunct("}")) {
+        if (!topLevel) break;
+        this.report(this.error("Expected field name"));
+        this.pos++;
+        continue;
       }
+      if (this.eat(",")) continue;
 
-      let key = "";
-      const parenMatch = header.match(/^(\w+)\((.*)\)/);
-      if (parenMatch) {
-        key = parenMatch[1].trim();
-        const argsStr = parenMatch[2].trim();
-        const args = parseArgs(argsStr);
-        Object.assign(directive, args);
-      } else {
-        key = header;
+      const start = this.pos;
+      try {
+        if (topLevel && this.isFragmentDefinition())
+          this.parseFragmentDefinition();
+        else selections.push(this.parseSelection());
+      } catch (err) {
+        if (!(err instanceof QueryParseError)) throw err;
+        this.report(err);
+        this.recover(start, err.line);
       }
+    }
 
-      const current = stack[stack.length - 1].obj;
-      current[key] = directive;
+    return selections;
+  }
 
-      stack.push({ obj: nested });
-      continue;
+  /** Skip the rest of the line the error occurred on, and any block it opens */
+  private recover(start: number, line: number) {
+    let depth = 0;
+    while (this.peek().type !== "eof") {
+      if (depth === 0 && (this.peek().line > line || this.isPunct("}"))) break;
+      if (this.isPunct("{")) depth++;
+      else if (this.isPunct("}")) depth--;
+      this.pos++;
     }
+    if (this.pos === start) this.pos++;
+  }
 
-    // --- Block end ---
-    if (line === "}") {
-      if (stack.length > 1) stack.pop();
-      continue;
+  private parseSelection(): SelectionNode {
+    const first = this.peek();
+
+    if (this.eat("...")) {
+      if (this.isInlineFragment()) return this.parseInlineFragment(first);
+      const name = this.expectName("Expected fragment name").text;
+      return { kind: "FragmentSpread", name, loc: locationOf(first) };
     }
 
-    const current = stack[stack.length - 1].obj;
+    const dataSource = this.parseSourcePrefix();
+    const field: FieldNode = {
+      kind: "Field",
+      name: this.expectName("Expected field name").text,
+      arguments: {},
+      directives: [],
+      loc: locationOf(first),
+    };
+    if (dataSource) field.dataSource = dataSource;
 
-    // --- Normal fields ---
-    const aliasMatch = line.match(/^(\w+)\s*:\s*(.+)$/);
-    if (aliasMatch) {
-      const [_, alias, expr] = aliasMatch;
-      if (expr.includes(".") || expr.includes("[")) {
-        current[alias] = (data: any, root: any) =>
-          evalNestedField(expr, data, rootData ?? data);
-      } else {
-        current[alias] = { path: expr };
+    if (this.eat(":")) this.parseTarget(field);
+    // `name | helper` pipes the field into helpers, keeping its name
+    else if (this.isPunct("|")) {
+      this.pos--;
+      this.parseTarget(field);
+    }
+    if (this.isPunct("(")) {
+      const start = this.peek();
+      field.arguments = this.parseArguments(FIELD_ARGS);
+      this.checkOrderBy(field.arguments, start);
+    }
+    while (this.isPunct("@")) field.directives.push(this.parseDirective());
+    this.checkPagination(field);
+
+    if (this.eat("{")) {
+      field.selections = this.parseSelections(false);
+      // An unclosed block still keeps its fields in lenient mode
+      if (!this.eat("}")) this.report(this.error('Expected "}"'));
+    }
+
+    return field;
+  }
+
+  /** After `...`: `on Type`, a directive or a block start an inline fragment */
+  private isInlineFragment() {
+    const token = this.peek();
+    return (
+      (token.type === "name" &&
+        token.text === "on" &&
+        this.peek(1).type === "name") ||
+      this.isPunct("@") ||
+      this.isPunct("{")
+    );
+  }
+
+  private parseInlineFragment(first: Token): InlineFragmentNode {
+    const node: InlineFragmentNode = {
+      kind: "InlineFragment",
+      directives: [],
+      selections: [],
+      loc: locationOf(first),
+    };
+    if (this.peek().text === "on") {
+      this.pos++;
+      node.typeCondition = this.next().text;
+    }
+    while (this.isPunct("@")) {
+      const directive = this.parseDirective();
+      if (directive.name === "skip" || directive.name === "include")
+        node.directives.push(directive);
+      else
+        this.report(
+          new QueryParseError(
+            {
+              expected: "Expected @skip or @include on an inline fragment",
+              found: `"@${directive.name}"`,
+              ...directive.loc,
+            },
+            this.source
+          )
+        );
+    }
+    this.expect("{");
+    node.selections = this.parseSelections(false);
+    if (!this.eat("}")) this.report(this.error('Expected "}"'));
+    return node;
+  }
+
+  /** Parse what follows `alias:` — a field with arguments or an expression */
+  private parseTarget(field: FieldNode) {
+    const dataSource = this.parseSourcePrefix();
+    if (dataSource) field.dataSource = dataSource;
+    const start = this.peek();
+
+    // `alias: field(arg: value)` is a field with arguments, not a call
+    if (
+      start.type === "name" &&
+      this.isPunct("(", 1) &&
+      this.peek(2).type === "name" &&
+      this.isPunct(":", 3)
+    ) {
+      this.pos++;
+      field.expression = { type: "Identifier", name: start.text };
+      field.source = start.text;
+      return;
+    }
+
+    const parser = new ExpressionParser(this.tokens, this.pos, this.source);
+    field.expression = parser.parseExpression();
+    this.tokens.slice(this.pos, parser.pos).forEach((token, i, tokens) => {
+      const previous = tokens[i - 1];
+      const isProperty =
+        previous?.type === "punct" && [".", "?."].includes(previous.text);
+      if (token.type === "name" && token.text.startsWith("$") && !isProperty)
+        this.checkVariable(token);
+    });
+    this.pos = parser.pos;
+    field.source = this.source.slice(
+      start.start,
+      this.tokens[this.pos - 1].end
+    );
+  }
+
+  /** Consume a `name::` data source prefix and return the name */
+  private parseSourcePrefix(): string | undefined {
+    const [name, colon, second] = [this.peek(), this.peek(1), this.peek(2)];
+    if (
+      name.type !== "name" ||
+      !this.isPunct(":", 1) ||
+      !this.isPunct(":", 2) ||
+      colon.end !== second.start
+    )
+      return undefined;
+    this.pos += 3;
+    return name.text;
+  }
+
+  /** Report a malformed `orderBy` string and drop it */
+  private checkOrderBy(args: Record<string, any>, start: Token) {
+    if (typeof args.orderBy !== "string") return;
+    try {
+      parseOrderBy(args.orderBy);
+    } catch {
+      const expected =
+        'Expected orderBy as "path [asc|desc] [nulls first|last]"';
+      const found = JSON.stringify(args.orderBy);
+      this.report(
+        new QueryParseError(
+          { expected, found, ...locationOf(start) },
+          this.source
+        )
+      );
+      delete args.orderBy;
+    }
+  }
+
+  /** Report pagination arguments that cannot be applied together */
+  private checkPagination(field: FieldNode) {
+    const args = field.arguments;
+    const cursor = ["first", "after"].find((arg) => arg in args);
+    const paged = ["page", "pageSize"].find((arg) => arg in args);
+    if (!cursor && !paged) return;
+    const report = (expected: string, found: string) =>
+      this.report(
+        new QueryParseError({ expected, found, ...field.loc }, this.source)
+      );
+
+    if (typeof args.after === "string" && decodeCursor(args.after) == null) {
+      report(
+        "Expected a cursor from a previous page",
+        JSON.stringify(args.after)
+      );
+      delete args.after;
+    }
+    if (cursor && paged)
+      report(`Expected "${cursor}" without page/pageSize`, `"${paged}"`);
+    if ("groupBy" in args)
+      report("Expected a paginated field without groupBy", '"groupBy"');
+    if (field.directives.some((node) => node.name === "aggregate"))
+      report("Expected a paginated field without @aggregate", '"@aggregate"');
+  }
+
+  /** Parse `(name: value, ...)`, reporting names missing from `allowed` */
+  private parseArguments(allowed?: string[]): Record<string, any> {
+    const args: Record<string, any> = {};
+    this.expect("(");
+    while (!this.eat(")")) {
+      const token = this.expectName("Expected argument name");
+      const name = token.text;
+      this.expect(":");
+      const valueToken = this.peek();
+      const value = this.parseValue();
+      if (allowed && !allowed.includes(name))
+        this.report(
+          this.error(`Expected one of ${allowed.join(", ")} as argument`, token)
+        );
+      else if (this.checkArgumentType(name, value, valueToken))
+        args[name] = value;
+      if (!this.eat(",") && !this.isPunct(")")) this.fail('Expected ")"');
+    }
+    return args;
+  }
+
+  /** Report a `$name` the header does not declare */
+  private checkVariable(token: Token) {
+    const name = token.text.slice(1);
+    if (this.variables && !this.variables.some((def) => def.name === name))
+      this.report(
+        this.error("Expected a variable declared in the header", token)
+      );
+  }
+
+  /** Report and drop an integer argument bound to a non-Int variable */
+  private checkArgumentType(name: string, value: any, token: Token) {
+    if (!isIntegerArg(name) || !isVariableNode(value)) return true;
+    const type = this.variables?.find((def) => def.name === value.name)?.type;
+    if (!type || (type.kind === "NamedType" && type.name === "Int"))
+      return true;
+    this.report(
+      new QueryParseError(
+        {
+          expected: "Expected a variable of type Int",
+          found: `"${token.text}" of type ${printType(type)}`,
+          ...locationOf(token),
+        },
+        this.source
+      )
+    );
+    return false;
+  }
+
+  private parseDirective(): DirectiveNode {
+    const at = this.next();
+    const name = this.expectName("Expected directive name").text;
+    const args = this.isPunct("(") ? this.parseArguments() : {};
+    const node: DirectiveNode = {
+      kind: "Directive",
+      name,
+      arguments: args,
+      loc: locationOf(at),
+    };
+    this.checkDirective(node);
+    if (name === "join") this.checkJoin(node);
+    return node;
+  }
+
+  /** Report directives that are not registered or get unknown arguments */
+  private checkDirective(node: DirectiveNode) {
+    const { name, loc } = node;
+    const definition = getDirective(name);
+    const report = (expected: string, found: string) =>
+      this.report(
+        new QueryParseError({ expected, found, ...loc }, this.source)
+      );
+
+    if (!definition)
+      return report("Expected a registered directive", `"@${name}"`);
+    const unknown = Object.keys(node.arguments).find(
+      (arg) => definition.args && !definition.args.includes(arg)
+    );
+    if (unknown)
+      report(
+        `Expected ${definition
+          .args!.map((arg) => `"${arg}"`)
+          .join(" or ")} as argument of @${name}`,
+        `"${unknown}"`
+      );
+  }
+
+  /** Report a `@join` without a source array or with a malformed condition */
+  private checkJoin(node: DirectiveNode) {
+    const args = node.arguments;
+    const report = (expected: string, found: string) =>
+      this.report(
+        new QueryParseError({ expected, found, ...node.loc }, this.source)
+      );
+    for (const arg of ["from", "on"])
+      if (args[arg] === undefined)
+        report('Expected @join(from: "...", on: "...")', `no "${arg}"`);
+    if (typeof args.on !== "string") return;
+    try {
+      parseJoinOn(args.on);
+    } catch {
+      report(
+        'Expected @join condition as "localPath = foreignPath"',
+        JSON.stringify(args.on)
+      );
+    }
+  }
+
+  private parseValue(): any {
+    const token = this.next();
+
+    if (token.type === "string" || token.type === "number") return token.value;
+    if (token.type === "name" && token.text.startsWith("$")) {
+      this.checkVariable(token);
+      return { kind: "Variable", name: token.text.slice(1) };
+    }
+    if (token.type === "name")
+      return Object.prototype.hasOwnProperty.call(VALUE_NAMES, token.text)
+        ? VALUE_NAMES[token.text]
+        : token.text;
+
+    if (token.type === "punct" && token.text === "-") {
+      const number = this.next();
+      if (number.type !== "number") this.fail("Expected number", number);
+      return -number.value;
+    }
+
+    if (token.type === "punct" && token.text === "[") {
+      const items: any[] = [];
+      while (!this.eat("]")) {
+        items.push(this.parseValue());
+        if (!this.eat(",") && !this.isPunct("]")) this.fail('Expected "]"');
       }
+      return items;
+    }
+
+    if (token.type === "punct" && token.text === "{") {
+      const obj: Record<string, any> = {};
+      while (!this.eat("}")) {
+        const key = this.expectName("Expected field name").text;
+        this.expect(":");
+        obj[key] = this.parseValue();
+        if (!this.eat(",") && !this.isPunct("}")) this.fail('Expected "}"');
+      }
+      return obj;
+    }
+
+    this.fail("Expected value", token);
+  }
+}
+
+/**
+ * Parse query string into a typed AST. Throws a QueryParseError in strict
+ * mode; otherwise syntax errors are pushed to `options.diagnostics`.
+ */
+export function parseDocument(
+  queryStr: string,
+  options: ParseOptions = {}
+): DocumentNode {
+  const parser = new QueryParser(queryStr, options.strict);
+  const doc = parser.parseDocument();
+  if (options.diagnostics) {
+    const errors = [...parser.errors].sort(
+      (a, b) => a.line - b.line || a.column - b.column
+    );
+    options.diagnostics.push(...errors);
+  }
+  return doc;
+}
+
+/** Whether an expression can be resolved with dot-path lookup and `||` fallbacks */
+function isPathExpression(node: ExpressionNode): boolean {
+  if (node.type === "Identifier") return !node.name.startsWith("$");
+  if (node.type === "Member")
+    return !node.computed && !node.optional && isPathExpression(node.object);
+  if (node.type === "Logical" && node.operator === "||")
+    return isFallback(node.left) && isFallback(node.right);
+  return false;
+}
+
+const isFallback = (node: ExpressionNode) =>
+  node.type === "Literal" ||
+  node.type === "Identifier" ||
+  isPathExpression(node);
+
+/** Condition arguments are expressions; a `$name` becomes a reference to it */
+const conditionOf = (value: any) =>
+  isVariableNode(value) ? "$" + value.name : String(value);
+
+function applyDirective(directive: QueryDirective, node: DirectiveNode) {
+  const args = node.arguments;
+  switch (node.name) {
+    case "skip":
+      directive.skipIf = conditionOf(args.if);
+      break;
+    case "include":
+      directive.includeIf = conditionOf(args.if);
+      break;
+    case "default":
+      directive.default = args.value;
+      break;
+    case "transform":
+      directive.transform = String(args.fn);
+      break;
+    case "aggregate":
+      directive.aggregate = args;
+      break;
+    case "source":
+      directive.source = String(args.name);
+      break;
+    case "join":
+      directive.join = args as JoinSpec;
+      break;
+    default:
+      if (getDirective(node.name))
+        (directive.directives ??= []).push({ name: node.name, args });
+  }
+}
+
+function lowerField(field: FieldNode): QueryField | QueryDirective {
+  const directive: QueryDirective = {};
+
+  if (field.expression) {
+    if (isPathExpression(field.expression)) directive.path = field.source;
+    else directive.expr = field.source;
+  }
+  if (field.dataSource) directive.source = field.dataSource;
+  Object.assign(directive, coerceArgs(field.arguments));
+  field.directives.forEach((node) => applyDirective(directive, node));
+  if (field.selections) directive.nested = lowerSelections(field.selections);
+
+  return Object.keys(directive).length ? markDirective(directive) : field.name;
+}
+
+function lowerInlineFragment(node: InlineFragmentNode): InlineFragment {
+  const fragment: InlineFragment = { nested: lowerSelections(node.selections) };
+  if (node.typeCondition) fragment.typeCondition = node.typeCondition;
+  for (const directive of node.directives) {
+    const condition = conditionOf(directive.arguments.if);
+    if (directive.name === "skip") fragment.skipIf = condition;
+    else fragment.includeIf = condition;
+  }
+  return fragment;
+}
+
+/** Lower AST selections into the QueryObject structure used by `shape` */
+export function lowerSelections(selections: SelectionNode[]): QueryObject {
+  const obj: QueryObject = {};
+  for (const selection of selections) {
+    if (selection.kind === "FragmentSpread") {
+      obj.__fragments = obj.__fragments || [];
+      obj.__fragments.push(selection.name);
+    } else if (selection.kind === "InlineFragment") {
+      (obj.__inlineFragments ??= []).push(lowerInlineFragment(selection));
     } else {
-      current[line] = line;
+      obj[selection.name] = lowerField(selection);
     }
   }
+  return obj;
+}
+
+/** Lower a whole document: its selections, variables and fragment definitions */
+export function lowerDocument(doc: DocumentNode): QueryObject {
+  const query = lowerSelections(doc.selections);
+  if (doc.variables) query.__variables = doc.variables;
+  if (doc.fragments)
+    query.__definitions = Object.fromEntries(
+      doc.fragments.map((definition) => [
+        definition.name,
+        {
+          ...lowerSelections(definition.selections),
+          __typeCondition: definition.typeCondition,
+        },
+      ])
+    );
+  return query;
+}
+
+/**
+ * Parse query string into QueryObject with directives. `rootData` is no
+ * longer needed and is only accepted for backwards compatibility.
+ */
+export function parseQuery(
+  queryStr: string,
+  rootData?: any,
+  options?: ParseOptions
+): QueryObject {
+  return lowerDocument(parseDocument(queryStr, options));
+}
+
+const parsedQueries = new Map<
+  string,
+  { query: QueryObject; errors: QueryParseError[] }
+>();
 
-  return root;
+/**
+ * Parse a query once per distinct text. Errors found on the first parse are
+ * replayed on every call: the first one is thrown in strict mode, otherwise
+ * all are pushed to `options.diagnostics`. The returned object is shared
+ * between callers and must not be mutated.
+ */
+export function parseQueryCached(
+  queryStr: string,
+  options: ParseOptions = {}
+): QueryObject {
+  // Registering a directive can change which queries are valid
+  const key = `${directiveVersion()}:${queryStr}`;
+  const entry = cached(parsedQueries, key, () => {
+    const errors: QueryParseError[] = [];
+    const query = parseQuery(queryStr, undefined, { diagnostics: errors });
+    return { query, errors };
+  });
+  if (options.strict && entry.errors.length) throw entry.errors[0];
+  options.diagnostics?.push(...entry.errors);
+  return entry.query;
 }
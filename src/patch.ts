@@ -0,0 +1,15 @@
+/** An RFC 6902 JSON Patch operation */
+export type JsonPatchOperation =
+  | { op: "add" | "replace"; path: string; value: any }
+  | { op: "remove"; path: string }
+  | { op: "move"; from: string; path: string };
+
+/** JSON Pointer (RFC 6901) to a list of keys */
+export const toPointer = (segments: string[]) =>
+  segments
+    .map((segment) => "/" + segment.replace(/~/g, "~0").replace(/\//g, "~1"))
+    .join("");
+
+/** Structural equality of JSON values, by their serialization */
+export const sameValue = (a: any, b: any) =>
+  a === b || JSON.stringify(a) === JSON.stringify(b);
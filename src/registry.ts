@@ -0,0 +1,173 @@
+import { createHash } from "crypto";
+import { EvaluationMode, QueryObject, ShapeOptions, Shaper } from "./types";
+import { parseQuery } from "./parser";
+import { compile } from "./compile";
+import { PersistedQueryError } from "./errors";
+import { cached } from "./cache";
+
+/** Hex SHA-256 digest of the UTF-8 encoding of `text` */
+const sha256 = (text: string) =>
+  createHash("sha256").update(text).digest("hex");
+
+/** A registered query, addressable by name or id */
+export interface RegisteredQuery {
+  /** Hex SHA-256 of `text`, as sent by persisted-query clients */
+  id: string;
+  name?: string;
+  text: string;
+  query: QueryObject;
+  shape: Shaper;
+}
+
+/**
+ * How a client addresses a query: a name or id, or an object with either
+ * and, for automatic persisting, the query text.
+ */
+export type PersistedQueryRequest =
+  | string
+  | { name?: string; id?: string; query?: string };
+
+export interface QueryRegistryOptions extends ShapeOptions {
+  /** Reject every query that is not registered up front */
+  lock?: boolean;
+  /**
+   * Evaluation mode of query text clients send that was not registered up
+   * front (default "safe"); `mode` applies to registered queries
+   */
+  clientMode?: EvaluationMode;
+}
+
+/** The subset of Node's `fs` the directory loader uses */
+export interface ShapeFileSystem {
+  readdirSync(path: string): string[];
+  readFileSync(path: string, encoding: "utf8"): string;
+}
+
+const FRAGMENT_FILE = /\.fragment\.shape$/;
+const QUERY_FILE = /\.shape$/;
+
+/**
+ * Queries and fragments registered by name, parsed once and addressed by
+ * name or SHA-256 id like Apollo persisted queries. In lock mode only
+ * registered queries resolve; otherwise unknown query text is parsed on
+ * demand, and text sent with its id is persisted.
+ */
+export class QueryRegistry {
+  readonly lock: boolean;
+  private byId = new Map<string, RegisteredQuery>();
+  private byName = new Map<string, RegisteredQuery>();
+  /** Automatically persisted client text, bounded like the parse cache */
+  private persisted = new Map<string, RegisteredQuery>();
+  private fragments: Record<string, QueryObject>;
+  private options: ShapeOptions;
+  private clientOptions: ShapeOptions;
+
+  constructor(options: QueryRegistryOptions = {}) {
+    const { lock = false, clientMode = "safe", ...rest } = options;
+    this.lock = lock;
+    // Registered fragments join those passed in; shapers see later additions
+    this.fragments = { ...rest.fragments };
+    this.options = { ...rest, strict: true, fragments: this.fragments };
+    this.clientOptions = { ...this.options, mode: clientMode };
+  }
+
+  /** Register a query, throwing if it does not parse; returns its id */
+  register(name: string | undefined, text: string): string {
+    const id = sha256(text);
+    if (name !== undefined && this.byName.has(name))
+      throw new Error(`Query "${name}" is already registered`);
+    // The same text under another name shares its entry
+    const entry = this.byId.get(id) ?? this.parse(text, id, this.options);
+    entry.name ??= name;
+    this.byId.set(id, entry);
+    if (name !== undefined) this.byName.set(name, entry);
+    return id;
+  }
+
+  /** Register a fragment for `...name` spreads in registered queries */
+  registerFragment(name: string, text: string) {
+    this.fragments[name] = parseQuery(text, undefined, { strict: true });
+  }
+
+  /** A registered or persisted query by name or id */
+  get(nameOrId: string): RegisteredQuery | undefined {
+    return (
+      this.byName.get(nameOrId) ??
+      this.byId.get(nameOrId) ??
+      this.persisted.get(nameOrId)
+    );
+  }
+
+  /** Names of the registered queries */
+  names(): string[] {
+    return [...this.byName.keys()];
+  }
+
+  /**
+   * The query a request addresses. Throws a PersistedQueryError when it is
+   * unknown, its text does not match its id, or it is not registered in lock
+   * mode.
+   */
+  resolve(request: PersistedQueryRequest): RegisteredQuery {
+    const { name, id, query } =
+      typeof request === "string" ? { name: request } : request;
+    const key = name ?? id;
+    const known = key !== undefined ? this.get(key) : undefined;
+    if (known) return known;
+
+    if (query === undefined)
+      throw new PersistedQueryError(
+        "PERSISTED_QUERY_NOT_FOUND",
+        `Unknown query "${name ?? id}"`
+      );
+    const hash = sha256(query);
+    if (id !== undefined && id !== hash)
+      throw new PersistedQueryError(
+        "PERSISTED_QUERY_HASH_MISMATCH",
+        `Query text does not match id "${id}"`
+      );
+    if (this.byId.has(hash)) return this.byId.get(hash)!;
+    if (this.lock)
+      throw new PersistedQueryError(
+        "QUERY_NOT_REGISTERED",
+        "Only registered queries are accepted"
+      );
+    // Text sent with its id is persisted; plain text is parsed but not kept
+    const parse = () => this.parse(query, hash, this.clientOptions);
+    return id !== undefined ? cached(this.persisted, hash, parse) : parse();
+  }
+
+  private parse(
+    text: string,
+    id: string,
+    options: ShapeOptions
+  ): RegisteredQuery {
+    const query = parseQuery(text, undefined, { strict: true });
+    return { id, text, query, shape: compile(query, options) };
+  }
+
+  /** Shape `data` with the query a request addresses */
+  shape(
+    data: any,
+    request: PersistedQueryRequest,
+    variables?: Record<string, any>
+  ): any {
+    return this.resolve(request).shape(data, variables);
+  }
+
+  /**
+   * Register every `.shape` file in a directory, named after the file.
+   * Files ending in `.fragment.shape` are registered as fragments first.
+   * Pass Node's `fs` module as `fs`.
+   */
+  loadDirectory(dir: string, fs: ShapeFileSystem): this {
+    const files = fs.readdirSync(dir).filter((file) => QUERY_FILE.test(file));
+    const read = (file: string) =>
+      fs.readFileSync(`${dir.replace(/\/$/, "")}/${file}`, "utf8");
+    for (const file of files.filter((file) => FRAGMENT_FILE.test(file)))
+      this.registerFragment(file.replace(FRAGMENT_FILE, ""), read(file));
+    for (const file of files.filter((file) => !FRAGMENT_FILE.test(file)))
+      this.register(file.replace(QUERY_FILE, ""), read(file));
+    return this;
+  }
+}
@@ -0,0 +1,324 @@
+export type JsonSchemaType =
+  | "string"
+  | "number"
+  | "integer"
+  | "boolean"
+  | "object"
+  | "array"
+  | "null";
+
+/** The subset of JSON Schema (and OpenAPI 3 schema objects) rest-shape reads */
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  maxItems?: number;
+  enum?: any[];
+  const?: any;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  $ref?: string;
+  /** OpenAPI 3.0 nullability flag */
+  nullable?: boolean;
+  description?: string;
+  [keyword: string]: any;
+}
+
+/** Refs nested deeper than this are treated as cycles */
+const MAX_REF_DEPTH = 32;
+
+const typeOf = (value: any): JsonSchemaType =>
+  value === null
+    ? "null"
+    : Array.isArray(value)
+    ? "array"
+    : typeof value === "number"
+    ? Number.isInteger(value)
+      ? "integer"
+      : "number"
+    : (typeof value as JsonSchemaType);
+
+/** Infer a JSON Schema from a sample payload */
+export function inferSchema(sample: any): JsonSchema {
+  const type = typeOf(sample);
+  if (type === "array") {
+    const items = (sample as any[]).map(inferSchema);
+    return items.length
+      ? { type, items: items.reduce(mergeSchemas) }
+      : { type, items: {} };
+  }
+  if (type === "object") {
+    const properties: Record<string, JsonSchema> = {};
+    for (const [key, value] of Object.entries(sample)) {
+      if (value !== undefined) properties[key] = inferSchema(value);
+    }
+    return { type, properties, required: Object.keys(properties) };
+  }
+  return { type };
+}
+
+/** The `type` keyword as a list */
+export const typesList = (schema: JsonSchema): JsonSchemaType[] =>
+  schema.type === undefined
+    ? []
+    : Array.isArray(schema.type)
+    ? schema.type
+    : [schema.type];
+
+/** Union two inferred schemas, e.g. the items of a sample array */
+export function mergeSchemas(a: JsonSchema, b: JsonSchema): JsonSchema {
+  const types = [...new Set([...typesList(a), ...typesList(b)])];
+  const result: JsonSchema = {
+    type: types.length === 1 ? types[0] : types,
+  };
+
+  if (a.properties || b.properties) {
+    const properties: Record<string, JsonSchema> = { ...a.properties };
+    for (const [key, value] of Object.entries(b.properties ?? {}))
+      properties[key] = properties[key]
+        ? mergeSchemas(properties[key], value)
+        : value;
+    result.properties = properties;
+    result.required = Object.keys(properties).filter(
+      (key) =>
+        (!a.properties || a.required?.includes(key)) &&
+        (!b.properties || b.required?.includes(key))
+    );
+  }
+  if (a.items || b.items)
+    result.items =
+      a.items && b.items ? mergeSchemas(a.items, b.items) : a.items ?? b.items;
+
+  return result;
+}
+
+/** Follow a local `#/...` JSON pointer */
+function resolvePointer(ref: string, root: JsonSchema): JsonSchema {
+  if (!ref.startsWith("#")) return {};
+  return (
+    ref
+      .slice(1)
+      .split("/")
+      .filter(Boolean)
+      .map((part) => part.replace(/~1/g, "/").replace(/~0/g, "~"))
+      .reduce((node: any, part) => node?.[part], root) ?? {}
+  );
+}
+
+/**
+ * Resolve `$ref` and merge `allOf` so callers can read keywords directly.
+ * Unresolvable or cyclic refs resolve to `{}` (any value).
+ */
+export function derefSchema(
+  schema: JsonSchema | undefined,
+  root: JsonSchema,
+  depth = 0
+): JsonSchema {
+  if (!schema || depth > MAX_REF_DEPTH) return {};
+  if (schema.$ref) {
+    const { $ref, ...rest } = schema;
+    return derefSchema(
+      { ...resolvePointer($ref, root), ...rest },
+      root,
+      depth + 1
+    );
+  }
+  if (schema.allOf) {
+    const { allOf, ...rest } = schema;
+    return allOf.reduce<JsonSchema>((merged, part) => {
+      const resolved = derefSchema(part, root, depth + 1);
+      return {
+        ...merged,
+        ...resolved,
+        properties: { ...merged.properties, ...resolved.properties },
+        required: [...(merged.required ?? []), ...(resolved.required ?? [])],
+      };
+    }, derefSchema(rest, root, depth + 1));
+  }
+  return schema;
+}
+
+/** Copy a schema with every `$ref` resolved so the result stands alone */
+export function inlineRefs(
+  schema: JsonSchema,
+  root: JsonSchema,
+  seen: JsonSchema[] = []
+): JsonSchema {
+  const resolved = derefSchema(schema, root);
+  if (seen.includes(resolved)) return {};
+  const stack = [...seen, resolved];
+  const result: JsonSchema = { ...resolved };
+  if (resolved.properties)
+    result.properties = Object.fromEntries(
+      Object.entries(resolved.properties).map(([key, value]) => [
+        key,
+        inlineRefs(value, root, stack),
+      ])
+    );
+  if (resolved.items) result.items = inlineRefs(resolved.items, root, stack);
+  if (typeof resolved.additionalProperties === "object")
+    result.additionalProperties = inlineRefs(
+      resolved.additionalProperties,
+      root,
+      stack
+    );
+  for (const keyword of ["anyOf", "oneOf"] as const)
+    if (resolved[keyword])
+      result[keyword] = resolved[keyword]!.map((variant) =>
+        inlineRefs(variant, root, stack)
+      );
+  return result;
+}
+
+/** Alternatives of a union schema, or the schema itself */
+export function variantsOf(schema: JsonSchema, root: JsonSchema): JsonSchema[] {
+  const resolved = derefSchema(schema, root);
+  const union = resolved.anyOf ?? resolved.oneOf;
+  return union
+    ? union.flatMap((variant) => variantsOf(variant, root))
+    : [resolved];
+}
+
+/** Every JSON type a schema admits; empty means any value */
+export function schemaTypes(
+  schema: JsonSchema,
+  root: JsonSchema
+): Set<JsonSchemaType> {
+  const types = new Set<JsonSchemaType>();
+  for (const variant of variantsOf(schema, root)) {
+    const list = typesList(variant);
+    if (!list.length) {
+      if (variant.properties) list.push("object");
+      else if (variant.items) list.push("array");
+      else if (variant.enum || "const" in variant)
+        (variant.enum ?? [variant.const]).forEach((v) => list.push(typeOf(v)));
+      else return new Set();
+    }
+    list.forEach((type) => types.add(type));
+    if (variant.nullable) types.add("null");
+  }
+  return types;
+}
+
+/** Whether a value matching the schema can be `null` */
+export function isNullable(schema: JsonSchema, root: JsonSchema): boolean {
+  const types = schemaTypes(schema, root);
+  return types.size === 0 || types.has("null");
+}
+
+/** Whether a value matching the schema can be of the given type */
+export function allowsType(
+  schema: JsonSchema,
+  type: JsonSchemaType,
+  root: JsonSchema
+): boolean {
+  const types = schemaTypes(schema, root);
+  return (
+    types.size === 0 ||
+    types.has(type) ||
+    (type === "integer" && types.has("number"))
+  );
+}
+
+/**
+ * Look up a property of an object schema. `required` is false when any union
+ * variant may omit it. Returns undefined when no variant declares the
+ * property and none allows additional properties.
+ */
+export function propertySchema(
+  schema: JsonSchema,
+  name: string,
+  root: JsonSchema
+): { schema: JsonSchema; required: boolean } | undefined {
+  const found: JsonSchema[] = [];
+  let required = true;
+  for (const variant of variantsOf(schema, root)) {
+    if (!allowsType(variant, "object", root)) continue;
+    const property = variant.properties?.[name];
+    if (property) {
+      found.push(property);
+      if (!variant.required?.includes(name)) required = false;
+    } else if (typeof variant.additionalProperties === "object") {
+      found.push(variant.additionalProperties);
+      required = false;
+    } else if (!variant.properties && variant.additionalProperties !== false) {
+      found.push({});
+      required = false;
+    } else {
+      required = false;
+    }
+  }
+  if (!found.length) return undefined;
+  return {
+    schema: found.length === 1 ? found[0] : { anyOf: found },
+    required,
+  };
+}
+
+/** Item schema of an array schema, `{}` when unspecified */
+export function itemsSchema(schema: JsonSchema, root: JsonSchema): JsonSchema {
+  const items = variantsOf(schema, root)
+    .filter((variant) => allowsType(variant, "array", root))
+    .map((variant) => variant.items ?? {});
+  return items.length === 1 ? items[0] : items.length ? { anyOf: items } : {};
+}
+
+/** Breadth-first search for a property anywhere in the schema, like `autoResolve` */
+export function findProperty(
+  schema: JsonSchema,
+  name: string,
+  root: JsonSchema
+): JsonSchema | undefined {
+  const seen = new Set<JsonSchema>();
+  let level = [schema];
+  while (level.length) {
+    const next: JsonSchema[] = [];
+    for (const variant of level.flatMap((item) => variantsOf(item, root))) {
+      if (seen.has(variant)) continue;
+      seen.add(variant);
+      if (variant.properties?.[name]) return variant.properties[name];
+      next.push(
+        ...Object.values(variant.properties ?? {}),
+        ...(variant.items ? [variant.items] : [])
+      );
+    }
+    level = next;
+  }
+  return undefined;
+}
+
+/** Allow `null` in addition to the values the schema accepts */
+export function withNull(schema: JsonSchema): JsonSchema {
+  const types = typesList(schema);
+  if (!types.length)
+    return Object.keys(schema).length
+      ? { anyOf: [schema, { type: "null" }] }
+      : schema;
+  if (types.includes("null")) return schema;
+  return { ...schema, type: [...types, "null"] };
+}
+
+/** Remove `null` from the values the schema accepts */
+export function withoutNull(schema: JsonSchema, root: JsonSchema): JsonSchema {
+  const resolved = derefSchema(schema, root);
+  const union = resolved.anyOf ?? resolved.oneOf;
+  if (union) {
+    const rest = union.filter((variant) => !isOnlyNull(variant, root));
+    const { anyOf, oneOf, ...others } = resolved;
+    return rest.length === 1
+      ? { ...others, ...rest[0] }
+      : { ...others, anyOf: rest };
+  }
+  const { nullable, ...rest } = resolved;
+  const types = typesList(rest).filter((type) => type !== "null");
+  if (!Array.isArray(rest.type)) return rest;
+  return { ...rest, type: types.length === 1 ? types[0] : types };
+}
+
+function isOnlyNull(schema: JsonSchema, root: JsonSchema) {
+  const types = schemaTypes(schema, root);
+  return types.size === 1 && types.has("null");
+}
@@ -1,153 +1,681 @@
-import { QueryDirective, QueryObject } from "./types";
+import {
+  AsyncShapeOptions,
+  AutoResolveOptions,
+  AutoResolvePolicy,
+  DirectiveContext,
+  DirectiveDefinition,
+  DirectivePhase,
+  Envelope,
+  EvaluationMode,
+  Helpers,
+  JoinSpec,
+  OrderByKey,
+  QueryDirective,
+  QueryObject,
+  ShapeOptions,
+  VariableNode,
+} from "./types";
 import {
   isDirectiveObject,
+  isReservedKey,
+  isShapeOptions,
   autoResolve,
   getByPath,
   evalNestedField,
+  applyTransform,
   mergeDeep,
+  FieldEvaluator,
+  TransformEvaluator,
 } from "./utils";
-import { parseQuery } from "./parser";
+import { parseQueryCached } from "./parser";
+import { InferShape } from "./infer";
+import { STANDARD_HELPERS } from "./helpers";
+import { groupItems } from "./aggregate";
+import { JoinKeys, lookupJoin, parseJoinOn } from "./join";
+import { parseOrderBy, sortItems } from "./sort";
+import {
+  ENVELOPES,
+  PageArgs,
+  decodeCursor,
+  envelopeName,
+  isPaginated,
+  paginate,
+} from "./paginate";
+import { isVariableNode, resolveArg, resolveVariables } from "./variables";
+import {
+  QueryArgumentError,
+  QueryFragmentError,
+  QueryVariableError,
+} from "./errors";
+import { directivesOf, getDirective, resolveDirectiveArgs } from "./directives";
+
+/** Evaluators `compile` prepared for a query, by expression text */
+export interface Evaluators {
+  fields: Map<string, FieldEvaluator>;
+  transforms: Map<string, TransformEvaluator>;
+}
+
+/** State shared by every level of a single `shape` call */
+interface ShapeContext {
+  fragments?: Record<string, QueryObject>;
+  /** Named fragments being spread, outermost first, to catch cycles */
+  spreads: string[];
+  root: any;
+  mode: EvaluationMode;
+  /** `$name` scope built from the query header and supplied variables */
+  variables: Record<string, any>;
+  helpers: Helpers;
+  envelopes: Record<string, Envelope>;
+  autoResolve: AutoResolvePolicy | AutoResolveOptions;
+  /** Fields are plain paths within their parent (`pathsOnly`) */
+  pathsOnly: boolean;
+  /** Named sources of a multi-source root (`multiSource({ ... })`) */
+  sources?: Record<string, any>;
+  /** `@join` indexes by joined array, then by foreign key path */
+  joinIndexes: WeakMap<any[], Map<string, Map<any, any[]>>>;
+  /** Await promises (`shapeAsync`) instead of keeping them as values */
+  async: boolean;
+  /** Prepared by `compile`; expressions missing here use the shared caches */
+  evaluators?: Evaluators;
+  /** Call a resolver, within the concurrency limit when async */
+  call(resolver: () => any): any;
+}
 
-/** Shape data according to query with fragment support */
+/**
+ * Shape data according to query with fragment support. The third argument is
+ * either a fragments map or a ShapeOptions object.
+ */
+export function shape<T, Q extends string>(
+  data: T,
+  query: Q,
+  fragments?: Record<string, QueryObject> | ShapeOptions,
+  rootData?: any,
+  contextKey?: string
+): InferShape<T, Q>;
 export function shape<T>(
   data: T,
   query: string | QueryObject,
-  fragments?: Record<string, QueryObject>,
+  fragments?: Record<string, QueryObject> | ShapeOptions,
+  rootData?: any,
+  contextKey?: string
+): any;
+export function shape<T>(
+  data: T,
+  query: string | QueryObject,
+  fragments?: Record<string, QueryObject> | ShapeOptions,
   rootData?: any,
   contextKey?: string
 ): any {
+  const options: ShapeOptions = isShapeOptions(fragments)
+    ? fragments
+    : { fragments };
+  return shapeRoot(data, query, options, rootData, false);
+}
+
+/**
+ * Shape data like `shape`, awaiting promises wherever a value is produced:
+ * the data itself, promise-valued fields, function fields (resolvers) and
+ * directive results. Sibling fields and array items resolve concurrently,
+ * with at most `options.concurrency` resolver calls in flight. Field order
+ * and directive semantics are those of `shape`.
+ */
+export async function shapeAsync<T>(
+  data: T | Promise<T>,
+  query: string | QueryObject,
+  options: AsyncShapeOptions = {}
+): Promise<any> {
+  return shapeRoot(await data, query, options, undefined, true);
+}
+
+/** Shape `data` with the query's `evaluators` when `compile` prepared them */
+export function shapeRoot(
+  data: any,
+  query: string | QueryObject,
+  options: AsyncShapeOptions,
+  rootData: any,
+  async: boolean,
+  evaluators?: Evaluators
+) {
+  const sources = isMultiSource(data) ? data.sources : undefined;
+  if (sources) data = sources;
+  const root = rootData ?? options.rootData ?? data;
   const queryObj: QueryObject =
-    typeof query === "string" ? parseQuery(query, rootData ?? data) : query;
+    typeof query === "string" ? parseQueryCached(query, options) : query;
+
+  return shapeObject(data, queryObj, {
+    fragments: queryObj.__definitions
+      ? { ...options.fragments, ...queryObj.__definitions }
+      : options.fragments,
+    spreads: [],
+    root,
+    mode: options.mode ?? "unsafe",
+    variables: resolveVariables(queryObj.__variables, options.variables),
+    helpers: options.helpers
+      ? { ...STANDARD_HELPERS, ...options.helpers }
+      : STANDARD_HELPERS,
+    envelopes: options.envelopes
+      ? { ...ENVELOPES, ...options.envelopes }
+      : ENVELOPES,
+    autoResolve: options.autoResolve ?? "depthFirst",
+    pathsOnly: !!options.pathsOnly,
+    sources,
+    joinIndexes: new WeakMap(),
+    async,
+    call: async ? limiter(options.concurrency ?? Infinity) : (run) => run(),
+    evaluators,
+  });
+}
+
+/** Roots created by `multiSource`; plain data is never one */
+const multiSources = new WeakSet<object>();
+
+/**
+ * Wrap named payloads as a multi-source root, e.g.
+ * `shape(multiSource({ github, crm }), "email: crm::customer.email")`.
+ */
+export function multiSource(sources: Record<string, any>): {
+  sources: Record<string, any>;
+} {
+  const root = { sources };
+  multiSources.add(root);
+  return root;
+}
+
+const isMultiSource = (data: any): data is { sources: Record<string, any> } =>
+  typeof data === "object" && data !== null && multiSources.has(data);
+
+/** Evaluate a query expression against `target` */
+function evaluate(ctx: ShapeContext, expr: string, target: any) {
+  const { root, mode, variables, helpers, evaluators } = ctx;
+  const value = evalNestedField(
+    expr,
+    target,
+    root,
+    mode,
+    variables,
+    helpers,
+    evaluators?.fields
+  );
+  // A field named like a helper must not resolve to the helper itself
+  return typeof value === "function" ? null : value;
+}
+
+/**
+ * Search the root for `key` by the `autoResolve` policy. At the top of a multi-source root this
+ * finds nothing, so keys never leak from one source into another.
+ */
+function findKey(ctx: ShapeContext, key: string) {
+  return ctx.sources && ctx.root === ctx.sources
+    ? null
+    : autoResolve(ctx.root, key, ctx.autoResolve);
+}
+
+const isThenable = (value: any): value is PromiseLike<any> =>
+  value != null && typeof value.then === "function";
+
+/** Continue with `value`, once it has settled when shaping asynchronously */
+function settle(ctx: ShapeContext, value: any, next: (value: any) => any): any {
+  return ctx.async && isThenable(value) ? value.then(next) : next(value);
+}
+
+/** Continue with every value of `values`, settled as by `settle` */
+function settleAll(
+  ctx: ShapeContext,
+  values: any[],
+  next: (values: any[]) => any
+): any {
+  return ctx.async && values.some(isThenable)
+    ? Promise.all(values).then(next)
+    : next(values);
+}
+
+/** Run at most `concurrency` calls at once, queueing the rest in order */
+function limiter(concurrency: number) {
+  let active = 0;
+  const waiting: (() => void)[] = [];
+  return async (run: () => any) => {
+    if (active < concurrency) active++;
+    else await new Promise<void>((resolve) => waiting.push(resolve));
+    try {
+      return await run();
+    } finally {
+      // Hand the slot straight to the next call so none can jump the queue
+      const next = waiting.shift();
+      if (next) next();
+      else active--;
+    }
+  };
+}
+
+/** Whether a type condition holds; data without a `__typename` has any type */
+function hasType(data: any, typeCondition: string | undefined) {
+  const type = data?.__typename;
+  return (
+    typeCondition === undefined ||
+    typeof type !== "string" ||
+    type === typeCondition
+  );
+}
+
+/**
+ * Branch of a discriminated selection that `data` takes: the type condition
+ * equal to its discriminator value, else a `default` branch if there is one
+ */
+function branchOf(
+  data: any,
+  queryObj: QueryObject,
+  ctx: ShapeContext,
+  discriminator: string
+): string | undefined {
+  const conditions = [
+    ...(queryObj.__fragments ?? []).map(
+      (name) => ctx.fragments?.[name]?.__typeCondition
+    ),
+    ...(queryObj.__inlineFragments ?? []).map((inline) => inline.typeCondition),
+  ];
+  const type = getByPath(data ?? {}, discriminator);
+  if (type != null && conditions.includes(String(type))) return String(type);
+  return conditions.includes("default") ? "default" : undefined;
+}
+
+/**
+ * Fragments of `queryObj` that apply to `data` with the context to shape
+ * them in: named spreads, then inline fragments whose type condition and
+ * `@skip`/`@include` pass. Unknown and cyclic spreads throw.
+ */
+function appliedFragments(
+  data: any,
+  queryObj: QueryObject,
+  ctx: ShapeContext,
+  matches = (typeCondition?: string) => hasType(data, typeCondition)
+): [QueryObject, ShapeContext][] {
+  const applied: [QueryObject, ShapeContext][] = [];
+  for (const name of queryObj.__fragments ?? []) {
+    const fragment = ctx.fragments?.[name];
+    if (!fragment)
+      throw new QueryFragmentError(name, `Unknown fragment "...${name}"`);
+    if (ctx.spreads.includes(name)) {
+      const cycle = [...ctx.spreads.slice(ctx.spreads.indexOf(name)), name];
+      throw new QueryFragmentError(
+        name,
+        `Fragment "...${name}" spreads itself: ${cycle
+          .map((spread) => "..." + spread)
+          .join(" → ")}`
+      );
+    }
+    if (matches(fragment.__typeCondition))
+      applied.push([fragment, { ...ctx, spreads: [...ctx.spreads, name] }]);
+  }
+  for (const inline of queryObj.__inlineFragments ?? []) {
+    if (!matches(inline.typeCondition)) continue;
+    if (inline.skipIf && evaluate(ctx, inline.skipIf, data)) continue;
+    if (inline.includeIf && !evaluate(ctx, inline.includeIf, data)) continue;
+    applied.push([inline.nested, ctx]);
+  }
+  return applied;
+}
 
-  let result: any = {};
-  const root = rootData ?? data;
+/**
+ * Shape `data` with every field of `queryObj`, fragments first. With a
+ * `discriminator`, type conditions pick one branch by that field's value
+ * and the result names it in `__typename`.
+ */
+function shapeObject(
+  data: any,
+  queryObj: QueryObject,
+  ctx: ShapeContext,
+  discriminator?: string
+): any {
+  const keys = Object.keys(queryObj).filter((key) => !isReservedKey(key));
+  const branch =
+    discriminator === undefined
+      ? undefined
+      : branchOf(data, queryObj, ctx, discriminator);
 
-  if (queryObj.__fragments && fragments) {
-    queryObj.__fragments.forEach((fragName) => {
-      const fragQuery = fragments[fragName];
-      if (!fragQuery) return;
+  const fragResults = appliedFragments(
+    data,
+    queryObj,
+    ctx,
+    discriminator === undefined
+      ? undefined
+      : (typeCondition) =>
+          typeCondition === undefined || typeCondition === branch
+  ).map(([fragment, fragCtx]) => shapeObject(data, fragment, fragCtx));
+  const values = keys.map((key) => shapeField(key, queryObj[key], data, ctx));
 
-      const fragResult = shape(data, fragQuery, fragments, root, contextKey);
+  // Settled together so a rejecting field is handled while fragments wait
+  return settleAll(ctx, [...fragResults, ...values], (settled) => {
+    const values = settled.slice(fragResults.length);
+    let result: any = branch === undefined ? {} : { __typename: branch };
+    settled.slice(0, fragResults.length).forEach((fragResult) => {
       if (Array.isArray(result)) {
         result = result.map((item, idx) => mergeDeep(item, fragResult[idx]));
       } else {
         mergeDeep(result, fragResult);
       }
     });
-  }
+    keys.forEach((key, i) => (result[key] = values[i]));
+    return result;
+  });
+}
 
-  for (const key in queryObj) {
-    if (key === "__fragments") continue;
+const orNull = (value: any) => value ?? null;
 
-    const field = queryObj[key];
-    const safeTarget = data ?? {};
+/** Resolve one field of a QueryObject against `data` */
+function shapeField(key: string, field: any, data: any, ctx: ShapeContext) {
+  const { root } = ctx;
+  const safeTarget = data ?? {};
 
-    if (typeof field === "function") {
-      result[key] = field(safeTarget, root);
-      continue;
-    }
+  if (typeof field === "function")
+    return ctx.call(() => field(safeTarget, root, ctx));
 
-    if (isDirectiveObject(field)) {
-      let value: any = null;
+  if (isDirectiveObject(field))
+    return field.source === undefined
+      ? shapeDirectiveField(key, field, safeTarget, ctx)
+      : shapeSourceField(key, field, ctx);
 
-      if (field.skipIf) {
-        const shouldSkip = !!evalNestedField(field.skipIf, safeTarget, root);
-        if (shouldSkip) {
-          result[key] = null;
-          continue;
-        }
-      }
+  if (typeof field === "object" && field !== null)
+    return settle(ctx, safeTarget[key], (value) =>
+      shapeObject(value ?? {}, field as QueryObject, ctx)
+    );
 
-      if (field.includeIf) {
-        const shouldInclude = !!evalNestedField(
-          field.includeIf,
-          safeTarget,
-          root
-        );
-        if (!shouldInclude) {
-          result[key] = null;
-          continue;
-        }
-      }
+  if (typeof field === "string" && ctx.pathsOnly)
+    return settle(ctx, getByPath(safeTarget, field), orNull);
 
-      if (field.path) {
-        const parts = field.path.split("||").map((p) => p.trim());
-        for (const part of parts) {
-          value =
-            getByPath(safeTarget as Record<string, any>, part) ??
-            getByPath(root, part) ??
-            autoResolve(root, part) ??
-            evalNestedField(part, safeTarget, root);
-          if (value != null) break;
-        }
-      } else {
-        value =
-          (safeTarget as Record<string, any>)[key] ?? autoResolve(root, key);
-      }
+  if (typeof field === "string")
+    return settle(
+      ctx,
+      evaluate(ctx, field, safeTarget) ??
+        getByPath(safeTarget, field) ??
+        findKey(ctx, field),
+      orNull
+    );
 
-      if (
-        (value === null || value === undefined) &&
-        field.default !== undefined
-      )
-        value = field.default;
-
-      if (field.transform && value != null) {
-        try {
-          value = Function(
-            "value",
-            "data",
-            `with(data){ return ${field.transform} }`
-          )(value, safeTarget);
-        } catch {}
-      }
+  return settle(ctx, safeTarget[key], orNull);
+}
 
-      if (Array.isArray(value)) {
-        let arrData = value;
-        if (field.filter)
-          arrData = arrData.filter(
-            (item) => !!evalNestedField(field.filter!, item, root)
-          );
-
-        if (field.skip !== undefined) arrData = arrData.slice(field.skip);
-        if (field.limit !== undefined) arrData = arrData.slice(0, field.limit);
-        result[key] = field.nested
-          ? arrData.map((item) =>
-              shape(item, field.nested!, fragments, root, key)
+/** Resolve a field in one source of a multi-source root, as its root */
+function shapeSourceField(
+  key: string,
+  field: QueryDirective,
+  ctx: ShapeContext
+) {
+  return settle(ctx, ctx.sources?.[field.source!], (source) => {
+    const data = source ?? {};
+    return shapeDirectiveField(key, field, data, { ...ctx, root: data });
+  });
+}
+
+/** Registered directives of a field with their arguments resolved */
+interface BoundDirective {
+  definition: DirectiveDefinition;
+  args: Record<string, any>;
+}
+
+function shapeDirectiveField(
+  key: string,
+  field: QueryDirective,
+  data: any,
+  ctx: ShapeContext
+) {
+  const { root, mode, variables, helpers, evaluators } = ctx;
+  const directives: BoundDirective[] = directivesOf(field).flatMap(
+    ({ name, args }) => {
+      const definition = getDirective(name);
+      return definition
+        ? [{ definition, args: resolveDirectiveArgs(args, variables) }]
+        : [];
+    }
+  );
+  const directiveCtx: DirectiveContext = {
+    key,
+    data,
+    root,
+    mode,
+    variables,
+    helpers,
+    evaluate: (expr) => evaluate(ctx, expr, data),
+    transform: (fn, value) =>
+      applyTransform(
+        fn,
+        value,
+        data,
+        mode,
+        variables,
+        helpers,
+        evaluators?.transforms
+      ),
+  };
+  const run = (phase: DirectivePhase, value: any) =>
+    directives.reduce(
+      (acc, { definition, args }) =>
+        definition.phase === phase
+          ? settle(ctx, acc, (value) =>
+              definition.apply(value, args, directiveCtx)
             )
-          : arrData;
-      } else if (typeof value === "object" && value !== null) {
-        result[key] = field.nested
-          ? shape(value, field.nested!, fragments, root, key)
-          : value;
-      } else {
-        result[key] = value ?? null;
-      }
-      continue;
+          : acc,
+      value
+    );
+
+  // The first "before" directive returning a value replaces the field
+  const replaced = directives.reduce(
+    (acc, { definition, args }) =>
+      definition.phase === "before"
+        ? settle(ctx, acc, (value) =>
+            value !== undefined
+              ? value
+              : definition.apply(undefined, args, directiveCtx)
+          )
+        : acc,
+    undefined as any
+  );
+
+  return settle(ctx, replaced, (value) => {
+    if (value !== undefined) return value;
+    return settle(ctx, resolveValue(key, field, data, ctx), (value) =>
+      settle(ctx, run("after", value), (value) => {
+        if (Array.isArray(value))
+          return shapeArray(value, field, run, directiveCtx, ctx);
+        if (typeof value === "object" && value !== null)
+          return field.nested
+            ? shapeObject(value, field.nested, ctx, field.discriminator)
+            : value;
+        return value ?? null;
+      })
+    );
+  });
+}
+
+/** Value of a directive field before its directives and selection apply */
+function resolveValue(
+  key: string,
+  field: QueryDirective,
+  data: any,
+  ctx: ShapeContext
+) {
+  const { root } = ctx;
+  if (ctx.pathsOnly) return getByPath(data, field.path ?? key);
+  if (field.join) return resolveJoin(field.join, data, ctx);
+  if (field.expr) return evaluate(ctx, field.expr, data);
+  if (field.path) {
+    let value: any;
+    for (const part of field.path.split("||").map((p) => p.trim())) {
+      value =
+        getByPath(data, part) ??
+        getByPath(root, part) ??
+        findKey(ctx, part) ??
+        evaluate(ctx, part, data);
+      if (value != null) break;
     }
+    return value;
+  }
+  return data[key] ?? findKey(ctx, key);
+}
+
+/**
+ * Items of the `from` array whose foreign key matches the local key of
+ * `data`. Each array is indexed once per `shape` call and join condition.
+ */
+function resolveJoin(join: JoinSpec, data: any, ctx: ShapeContext) {
+  const { from, on, many } = resolveDirectiveArgs(join, ctx.variables);
+  let keys: JoinKeys;
+  try {
+    keys = parseJoinOn(on);
+  } catch (err) {
+    if (!isVariableNode(join.on)) throw err;
+    throw new QueryVariableError(join.on.name, (err as Error).message);
+  }
+
+  const [, sourceName, path] = String(from).match(/^(?:([\w$]+)::)?(.*)$/)!;
+  const items = getByPath(
+    sourceName ? ctx.sources?.[sourceName] : ctx.root,
+    path
+  );
+  if (!Array.isArray(items)) return many ? [] : null;
+
+  let indexes = ctx.joinIndexes.get(items);
+  if (!indexes) ctx.joinIndexes.set(items, (indexes = new Map()));
+  let index = indexes.get(keys.foreign);
+  if (!index)
+    indexes.set(keys.foreign, (index = groupItems(items, keys.foreign)));
+  return lookupJoin(index, getByPath(data, keys.local), !!many);
+}
 
-    if (typeof field === "object" && field !== null) {
-      const nestedValue = (safeTarget as Record<string, any>)[key] ?? {};
-      result[key] = shape(
-        nestedValue,
-        field as QueryObject,
-        fragments,
-        root,
-        key
+/**
+ * Filter, sort, run array directives and slice an array field, then shape
+ * its items as a page, as groups or as a plain list.
+ */
+function shapeArray(
+  value: any[],
+  field: QueryDirective,
+  run: (phase: DirectivePhase, value: any) => any,
+  directiveCtx: DirectiveContext,
+  ctx: ShapeContext
+) {
+  const { variables, envelopes } = ctx;
+  const shapeItems = (items: any[]) => {
+    const summary = field.aggregate && getDirective("aggregate");
+    if (summary)
+      return summary.apply(
+        items,
+        resolveDirectiveArgs(field.aggregate!, variables),
+        directiveCtx
       );
-      continue;
-    }
+    if (!field.nested) return items;
+    return settleAll(
+      ctx,
+      items.map((item) =>
+        shapeObject(item, field.nested!, ctx, field.discriminator)
+      ),
+      (shaped) => shaped
+    );
+  };
 
-    if (typeof field === "string") {
-      result[key] =
-        evalNestedField(field, safeTarget, root) ??
-        getByPath(safeTarget, field) ??
-        autoResolve(root, field) ??
-        null;
-      continue;
-    }
+  return settleAll(ctx, value, (arrData) => {
+    if (field.filter)
+      arrData = arrData.filter((item) => !!evaluate(ctx, field.filter!, item));
+    if (field.orderBy)
+      arrData = sortItems(
+        arrData,
+        resolveOrderBy(field.orderBy, variables),
+        field.locale
+      );
+
+    return settle(ctx, run("array", arrData), (arrData: any[]) => {
+      const skip = resolveArg(field.skip, variables);
+      const limit = resolveArg(field.limit, variables);
+      if (skip != null) arrData = arrData.slice(skip);
+      if (limit != null) arrData = arrData.slice(0, limit);
+
+      const pageArgs = resolvePageArgs(field, variables);
+      if (pageArgs) {
+        const page = paginate(arrData, pageArgs);
+        return settle(ctx, shapeItems(page.items), (items) =>
+          envelopeOf(field, envelopes)({ ...page, items })
+        );
+      }
+
+      const groupBy = resolveArg(field.groupBy, variables);
+      if (groupBy == null) return shapeItems(arrData);
+
+      const groups = [...groupItems(arrData, String(groupBy))];
+      return settleAll(
+        ctx,
+        groups.map(([, items]) => shapeItems(items)),
+        (shaped) =>
+          shapeGroups(
+            groups.map(([groupKey], i) => [groupKey, shaped[i]]),
+            field.groupAs,
+            !!field.aggregate
+          )
+      );
+    });
+  });
+}
 
-    result[key] = (safeTarget as Record<string, any>)[key] ?? null;
+/** Sort keys from an `orderBy` argument, parsing a `$variable` string */
+function resolveOrderBy(
+  orderBy: OrderByKey[] | VariableNode,
+  variables: Record<string, any>
+): OrderByKey[] {
+  if (!isVariableNode(orderBy)) return orderBy;
+  const value = resolveArg(orderBy, variables);
+  if (value == null) return [];
+  try {
+    return parseOrderBy(String(value));
+  } catch (err) {
+    throw new QueryVariableError(orderBy.name, (err as Error).message);
   }
+}
+
+/** Pagination arguments of a field, or `undefined` if it is not paginated */
+function resolvePageArgs(
+  field: QueryDirective,
+  variables: Record<string, any>
+): PageArgs | undefined {
+  if (!isPaginated(field)) return undefined;
+  const first = resolveArg(field.first, variables);
+  const after = resolveArg(field.after, variables);
+  const page = resolveArg(field.page, variables);
+  const pageSize = resolveArg(field.pageSize, variables);
+  const offset = after == null ? null : decodeCursor(after);
+  if (after != null && offset == null && isVariableNode(field.after))
+    throw new QueryVariableError(
+      field.after.name,
+      `Variable "$${field.after.name}" is not a valid cursor: ${JSON.stringify(
+        after
+      )}`
+    );
+  return { first, after: offset ?? undefined, page, pageSize };
+}
+
+/** The envelope a paginated field asked for, by name or by its arguments */
+function envelopeOf(
+  field: QueryDirective,
+  envelopes: Record<string, Envelope>
+): Envelope {
+  const name = envelopeName(field);
+  const envelope = envelopes[name];
+  if (!envelope)
+    throw new QueryArgumentError(
+      "envelope",
+      `Unknown pagination envelope "${name}"`
+    );
+  return envelope;
+}
 
-  return result;
+/**
+ * Lay out shaped groups as `{ [key]: items }`, or as `{ key, items }` entries
+ * when `groupAs` is "array". Aggregated groups are spread into their entry.
+ */
+function shapeGroups(
+  entries: [any, any][],
+  groupAs: QueryDirective["groupAs"],
+  aggregated: boolean
+) {
+  if (groupAs === "array")
+    return entries.map(([key, value]) =>
+      aggregated ? { key, ...value } : { key, items: value }
+    );
+  return Object.fromEntries(entries);
 }
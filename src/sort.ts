@@ -0,0 +1,62 @@
+import { OrderByKey } from "./types";
+
+const ORDER_KEY =
+  /^([\w$]+(?:\.[\w$]+)*)(?:\s+(asc|desc))?(?:\s+nulls\s+(first|last))?$/i;
+
+/**
+ * Parse an `orderBy` argument such as `"likes desc, title asc nulls first"`.
+ * Direction defaults to ascending and nulls sort last unless stated.
+ */
+export function parseOrderBy(spec: string): OrderByKey[] {
+  return spec.split(",").map((part) => {
+    const match = part.trim().match(ORDER_KEY);
+    if (!match)
+      throw new SyntaxError(
+        `Invalid orderBy key "${part.trim()}", expected "path [asc|desc] [nulls first|last]"`
+      );
+    const [, path, direction = "asc", nulls = "last"] = match;
+    return {
+      path,
+      direction: direction.toLowerCase() as OrderByKey["direction"],
+      nulls: nulls.toLowerCase() as OrderByKey["nulls"],
+    };
+  });
+}
+
+const valueAt = (item: any, path: string) =>
+  path.split(".").reduce((acc, key) => acc?.[key], item);
+
+/**
+ * Stable multi-key sort returning a new array. Strings are compared with
+ * `Intl.Collator` (numeric-aware, in `locale` when given), other values with
+ * `<`/`>`. `null` and `undefined` go first or last as each key says,
+ * whatever the direction.
+ */
+export function sortItems(
+  items: any[],
+  keys: OrderByKey[],
+  locale?: string
+): any[] {
+  const collator = new Intl.Collator(locale, { numeric: true });
+  const compare = (a: any, b: any) => {
+    for (const { path, direction, nulls } of keys) {
+      const left = valueAt(a, path);
+      const right = valueAt(b, path);
+      if (left == null || right == null) {
+        if (left == null && right == null) continue;
+        return (left == null ? -1 : 1) * (nulls === "first" ? 1 : -1);
+      }
+      const order =
+        typeof left === "string" && typeof right === "string"
+          ? collator.compare(left, right)
+          : left < right
+          ? -1
+          : left > right
+          ? 1
+          : 0;
+      if (order) return direction === "desc" ? -order : order;
+    }
+    return 0;
+  };
+  return [...items].sort(compare);
+}
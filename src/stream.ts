@@ -0,0 +1,319 @@
+import { QueryDirective, QueryObject, ShapeOptions } from "./types";
+import { evalNestedField, isDirectiveObject, isReservedKey } from "./utils";
+import { parseQueryCached } from "./parser";
+import { compile } from "./compile";
+import { STANDARD_HELPERS } from "./helpers";
+import { resolveArg, resolveVariables } from "./variables";
+
+/** Chunks of JSON text, such as a Node `Readable` or a `fetch` body */
+export type JsonTextStream =
+  | AsyncIterable<string | Uint8Array>
+  | Iterable<string | Uint8Array>;
+
+/** Arguments of the streamed field that apply to one item at a time */
+const STREAMABLE = new Set<string>([
+  "path",
+  "nested",
+  "filter",
+  "skip",
+  "limit",
+]);
+const PATH = /^[A-Za-z_$][\w$]*(?:\.[\w$]+)*$/;
+
+/** An open object or array; `value` is set inside the streamed items */
+interface Frame {
+  array: boolean;
+  /** Values read so far, the index of the next one in an array */
+  count: number;
+  key?: string;
+  value?: any;
+}
+
+/**
+ * Incremental JSON parser that keeps only the items of the array at `target`.
+ * Everything else is checked and skipped without building values, so memory
+ * holds the open containers and the items not yet taken.
+ */
+class ArrayItemParser {
+  /** Set once the target array has closed */
+  finished = false;
+  private items: any[] = [];
+  private stack: Frame[] = [];
+  private state: "value" | "key" | "colon" | "after" | "end" = "value";
+  /** Partial string or scalar token, and which of the two it is */
+  private token = "";
+  private tokenKind: "string" | "scalar" | undefined;
+  private escaped = false;
+  /** Stack depth while inside the target array */
+  private itemDepth = -1;
+  private offset = 0;
+  private decoder = new TextDecoder();
+
+  constructor(private target: string[]) {}
+
+  /** Items completed since the last call */
+  take(): any[] {
+    const items = this.items;
+    this.items = [];
+    return items;
+  }
+
+  write(chunk: string | Uint8Array) {
+    const text =
+      typeof chunk === "string"
+        ? chunk
+        : this.decoder.decode(chunk, { stream: true });
+    for (let i = 0; i < text.length && !this.finished; i++) {
+      if (this.tokenKind === "string") {
+        i = this.readString(text, i);
+        continue;
+      }
+      const char = text[i];
+      if (this.tokenKind === "scalar") {
+        if (/[\w.+-]/.test(char)) {
+          this.token += char;
+          continue;
+        }
+        this.endScalar(this.offset + i);
+      }
+      this.read(char, this.offset + i);
+    }
+    this.offset += text.length;
+  }
+
+  end() {
+    if (this.finished) return;
+    if (this.tokenKind === "scalar") this.endScalar(this.offset);
+    if (this.state !== "end" || this.tokenKind)
+      throw new SyntaxError("Unexpected end of JSON input");
+  }
+
+  /** Continue a string token from `i`; returns the index of its last char */
+  private readString(text: string, i: number): number {
+    let j = i;
+    for (; j < text.length; j++) {
+      const code = text.charCodeAt(j);
+      if (this.escaped) this.escaped = false;
+      else if (code === 92) this.escaped = true;
+      else if (code === 34) break;
+    }
+    this.token += text.slice(i, j);
+    if (j === text.length) return j;
+
+    let value: string;
+    try {
+      value = JSON.parse(`"${this.token}"`);
+    } catch {
+      throw new SyntaxError(
+        `Invalid string in JSON at position ${this.offset + j}`
+      );
+    }
+    this.token = "";
+    this.tokenKind = undefined;
+    if (this.state === "key") {
+      this.stack[this.stack.length - 1].key = value;
+      this.state = "colon";
+    } else this.value(value);
+    return j;
+  }
+
+  private endScalar(position: number) {
+    let value: any;
+    try {
+      value = JSON.parse(this.token);
+    } catch {
+      throw new SyntaxError(
+        `Unexpected token "${this.token}" in JSON at position ${position}`
+      );
+    }
+    this.token = "";
+    this.tokenKind = undefined;
+    this.value(value);
+  }
+
+  private read(char: string, position: number) {
+    const top = this.stack[this.stack.length - 1];
+    const unexpected = () =>
+      new SyntaxError(`Unexpected "${char}" in JSON at position ${position}`);
+    if (char === " " || char === "\n" || char === "\r" || char === "\t") return;
+
+    if (char === "{" || char === "[") {
+      if (this.state !== "value") throw unexpected();
+      this.open(char === "[");
+    } else if (char === "}" || char === "]") {
+      const closable =
+        this.state === "after" ||
+        (top?.count === 0 && this.state === (top.array ? "value" : "key"));
+      if (!top || top.array !== (char === "]") || !closable) throw unexpected();
+      this.close();
+    } else if (char === ",") {
+      if (this.state !== "after" || !top) throw unexpected();
+      this.state = top.array ? "value" : "key";
+    } else if (char === ":") {
+      if (this.state !== "colon") throw unexpected();
+      this.state = "value";
+    } else if (char === '"') {
+      if (this.state !== "value" && this.state !== "key") throw unexpected();
+      this.tokenKind = "string";
+    } else if (this.state === "value" && /[-\dtfn]/.test(char)) {
+      this.tokenKind = "scalar";
+      this.token = char;
+    } else throw unexpected();
+  }
+
+  /** Key or index of the next value in `frame` */
+  private slot(frame: Frame) {
+    return frame.array ? String(frame.count) : frame.key!;
+  }
+
+  private open(array: boolean) {
+    const parent = this.stack[this.stack.length - 1];
+    const frame: Frame = { array, count: 0 };
+    if (parent?.value !== undefined || this.stack.length === this.itemDepth) {
+      frame.value = array ? [] : {};
+      if (parent.value !== undefined)
+        parent.value[this.slot(parent)] = frame.value;
+    } else if (
+      this.itemDepth === -1 &&
+      this.stack.length === this.target.length &&
+      this.stack.every((open, i) => this.slot(open) === this.target[i])
+    ) {
+      if (!array)
+        throw new TypeError(
+          `Expected an array at "${this.target.join(".")}", found an object`
+        );
+      this.itemDepth = this.stack.length + 1;
+    }
+    this.stack.push(frame);
+    this.state = array ? "value" : "key";
+  }
+
+  private close() {
+    const frame = this.stack.pop()!;
+    if (this.stack.length === this.itemDepth - 1) {
+      this.finished = true;
+      return;
+    }
+    if (this.stack.length === this.itemDepth) this.items.push(frame.value);
+    this.next();
+  }
+
+  private value(value: any) {
+    const parent = this.stack[this.stack.length - 1];
+    if (parent?.value !== undefined) parent.value[this.slot(parent)] = value;
+    else if (this.stack.length === this.itemDepth) this.items.push(value);
+    this.next();
+  }
+
+  /** Move past a completed value */
+  private next() {
+    const parent = this.stack[this.stack.length - 1];
+    if (!parent) {
+      this.state = "end";
+      return;
+    }
+    parent.count++;
+    this.state = "after";
+  }
+}
+
+/** The only top-level field of a streamed query, as a directive */
+function streamedField(queryObj: QueryObject): {
+  key: string;
+  field: QueryDirective;
+} {
+  const keys = Object.keys(queryObj).filter((key) => !isReservedKey(key));
+  if (
+    keys.length !== 1 ||
+    queryObj.__fragments?.length ||
+    queryObj.__inlineFragments?.length
+  )
+    throw new Error("A streamed query selects exactly one array field");
+  const [key] = keys;
+  const value = queryObj[key];
+  const field: QueryDirective =
+    typeof value === "string"
+      ? { path: value }
+      : isDirectiveObject(value)
+      ? value
+      : { nested: value };
+
+  const unsupported = Object.keys(field).find((arg) => !STREAMABLE.has(arg));
+  if (unsupported)
+    throw new Error(
+      `"${unsupported}" needs the whole array and cannot be streamed`
+    );
+  if (!PATH.test(field.path ?? key))
+    throw new Error(`"${field.path}" is not a path and cannot be streamed`);
+  return { key, field };
+}
+
+/**
+ * Shape the items of one large JSON array as its text streams in, e.g.
+ * `records(filter: "active", limit: 100) { id name }` over
+ * `{ "records": [...] }`. Only `filter`, `skip`, `limit` and the selection
+ * apply, item by item; each item sees itself as the root. Reading stops
+ * once the array has closed or `limit` items are out, so the rest of the
+ * input is neither parsed nor checked.
+ */
+export async function* shapeStream(
+  input: JsonTextStream,
+  query: string | QueryObject,
+  options: ShapeOptions = {}
+): AsyncGenerator<any, void, undefined> {
+  const queryObj =
+    typeof query === "string" ? parseQueryCached(query, options) : query;
+  const { key, field } = streamedField(queryObj);
+  const variables = resolveVariables(queryObj.__variables, options.variables);
+  const skip = resolveArg(field.skip, variables) ?? 0;
+  const limit = resolveArg(field.limit, variables) ?? Infinity;
+  const helpers = { ...STANDARD_HELPERS, ...options.helpers };
+  const shaper =
+    field.nested &&
+    compile(
+      {
+        ...field.nested,
+        __variables: queryObj.__variables,
+        __definitions: queryObj.__definitions,
+      },
+      options
+    );
+
+  const parser = new ArrayItemParser((field.path ?? key).split("."));
+  let skipped = 0;
+  let taken = 0;
+  if (limit <= 0) return;
+
+  for await (const chunk of input) {
+    parser.write(chunk);
+    for (const item of parser.take()) {
+      if (
+        field.filter &&
+        !evalNestedField(
+          field.filter,
+          item,
+          item,
+          options.mode,
+          variables,
+          helpers
+        )
+      )
+        continue;
+      if (skipped < skip) {
+        skipped++;
+        continue;
+      }
+      yield shaper ? shaper(item) : item;
+      if (++taken >= limit) return;
+    }
+    if (parser.finished) return;
+  }
+  parser.end();
+}
+
+/** Serialize shaped items as newline-delimited JSON, one line per item */
+export async function* toNdjson(
+  items: AsyncIterable<any> | Iterable<any>
+): AsyncGenerator<string, void, undefined> {
+  for await (const item of items) yield JSON.stringify(item) + "\n";
+}
@@ -0,0 +1,649 @@
+import { AggregateSpec, JoinSpec, QueryDirective, QueryObject } from "./types";
+import { isDirectiveObject, isReservedKey } from "./utils";
+import { parseQuery } from "./parser";
+import { ExpressionNode, parseExpression } from "./expression";
+import { isVariableNode } from "./variables";
+import { getDirective } from "./directives";
+import { AGGREGATIONS } from "./aggregate";
+import { envelopeName, isPaginated } from "./paginate";
+import { JoinKeys, parseJoinOn } from "./join";
+import {
+  JsonSchema,
+  allowsType,
+  derefSchema,
+  findProperty,
+  inlineRefs,
+  inferSchema,
+  isNullable,
+  itemsSchema,
+  propertySchema,
+  schemaTypes,
+  typesList,
+  withNull,
+  withoutNull,
+} from "./schema";
+
+export interface TypegenOptions {
+  /** Sample input payload to infer the input schema from */
+  sample?: any;
+  /** JSON Schema of the input payload; takes precedence over `sample` */
+  schema?: JsonSchema;
+  /** Name of the generated interface */
+  name?: string;
+  fragments?: Record<string, QueryObject>;
+}
+
+/** A value's schema without `null`, and whether it may be `null` */
+interface Resolved {
+  schema: JsonSchema;
+  nullable: boolean;
+}
+
+interface TypegenScope {
+  current: JsonSchema;
+  root: JsonSchema;
+  fragments: Record<string, QueryObject>;
+}
+
+const UNKNOWN: Resolved = { schema: {}, nullable: true };
+
+const STRING_METHODS = new Set([
+  "toUpperCase",
+  "toLowerCase",
+  "trim",
+  "trimStart",
+  "trimEnd",
+  "padStart",
+  "padEnd",
+  "replace",
+  "replaceAll",
+  "repeat",
+  "substring",
+  "charAt",
+  "join",
+  "toFixed",
+  "toISOString",
+  "toLocaleString",
+  "toString",
+]);
+const BOOLEAN_METHODS = new Set([
+  "includes",
+  "startsWith",
+  "endsWith",
+  "some",
+  "every",
+]);
+const NUMBER_METHODS = new Set(["indexOf", "lastIndexOf", "findIndex"]);
+const COMPARISONS = new Set([
+  "==",
+  "!=",
+  "===",
+  "!==",
+  "<",
+  "<=",
+  ">",
+  ">=",
+  "in",
+]);
+
+/** Union of two result schemas, collapsing plain type lists */
+function union(a: JsonSchema, b: JsonSchema): JsonSchema {
+  if (!Object.keys(a).length || !Object.keys(b).length) return {};
+  if (JSON.stringify(a) === JSON.stringify(b)) return a;
+  const plain = (s: JsonSchema) => Object.keys(s).every((k) => k === "type");
+  if (plain(a) && plain(b)) {
+    const types = [...new Set([...typesList(a), ...typesList(b)])];
+    return { type: types.length === 1 ? types[0] : types };
+  }
+  return { anyOf: [a, b] };
+}
+
+/** Object schema with exactly these keys, all present */
+const closed = (properties: Record<string, JsonSchema>): JsonSchema => ({
+  type: "object",
+  properties,
+  required: Object.keys(properties),
+  additionalProperties: false,
+});
+
+const output = ({ schema, nullable }: Resolved) =>
+  nullable ? withNull(schema) : schema;
+
+/** Walk a dotted path through a schema the way `getByPath` walks data */
+function lookupPath(
+  schema: JsonSchema,
+  path: string,
+  root: JsonSchema
+): Resolved | undefined {
+  let current = schema;
+  let nullable = false;
+  for (const segment of path.split(".")) {
+    if (segment === "length" && !allowsType(current, "object", root))
+      return { schema: { type: "integer" }, nullable };
+    const property = propertySchema(current, segment, root);
+    if (!property) return undefined;
+    if (!property.required) nullable = true;
+    current = property.schema;
+  }
+  return {
+    schema: withoutNull(current, root),
+    nullable: nullable || isNullable(current, root),
+  };
+}
+
+/** Data first, then the root, then a deep search like `autoResolve` */
+function resolveKey(path: string, scope: TypegenScope): Resolved {
+  const found =
+    lookupPath(scope.current, path, scope.root) ??
+    lookupPath(scope.root, path, scope.root);
+  if (found) return found;
+  const deep = path.includes(".")
+    ? undefined
+    : findProperty(scope.root, path, scope.root);
+  return deep
+    ? { schema: withoutNull(deep, scope.root), nullable: true }
+    : UNKNOWN;
+}
+
+/** Best-effort result type of a computed expression */
+function inferExpression(node: ExpressionNode, scope: TypegenScope): Resolved {
+  const known = (schema: JsonSchema): Resolved => ({ schema, nullable: false });
+  switch (node.type) {
+    case "Literal":
+      return node.value == null
+        ? { schema: { type: "null" }, nullable: true }
+        : known(inferSchema(node.value));
+    case "Identifier":
+      return node.name.startsWith("$") ? UNKNOWN : resolveKey(node.name, scope);
+    case "Member": {
+      if (!node.computed && node.property.type === "Literal") {
+        if (node.property.value === "length") return known({ type: "integer" });
+        const path = memberPath(node);
+        if (path) return resolveKey(path, scope);
+      }
+      return UNKNOWN;
+    }
+    case "Chain":
+      return { ...inferExpression(node.expression, scope), nullable: true };
+    case "Unary":
+      if (node.operator === "!") return known({ type: "boolean" });
+      if (node.operator === "typeof") return known({ type: "string" });
+      return known({ type: "number" });
+    case "Binary": {
+      if (COMPARISONS.has(node.operator)) return known({ type: "boolean" });
+      if (node.operator !== "+") return known({ type: "number" });
+      const sides = [node.left, node.right].map((side) =>
+        schemaTypes(inferExpression(side, scope).schema, scope.root)
+      );
+      if (sides.some((types) => types.size === 1 && types.has("string")))
+        return known({ type: "string" });
+      if (sides.every((types) => types.size && ![...types].some(notNumeric)))
+        return known({ type: "number" });
+      return { schema: {}, nullable: false };
+    }
+    case "Logical": {
+      if (node.operator === "&&") return UNKNOWN;
+      const left = inferExpression(node.left, scope);
+      const right = inferExpression(node.right, scope);
+      return {
+        schema: union(left.schema, right.schema),
+        nullable: right.nullable,
+      };
+    }
+    case "Conditional": {
+      const a = inferExpression(node.consequent, scope);
+      const b = inferExpression(node.alternate, scope);
+      return {
+        schema: union(a.schema, b.schema),
+        nullable: a.nullable || b.nullable,
+      };
+    }
+    case "Call": {
+      const callee = node.callee;
+      if (callee.type !== "Member" || callee.property.type !== "Literal")
+        return UNKNOWN;
+      const method = callee.property.value;
+      if (STRING_METHODS.has(method)) return known({ type: "string" });
+      if (BOOLEAN_METHODS.has(method)) return known({ type: "boolean" });
+      if (NUMBER_METHODS.has(method)) return known({ type: "integer" });
+      if (method === "split")
+        return known({ type: "array", items: { type: "string" } });
+      return UNKNOWN;
+    }
+    case "Array":
+      return known({
+        type: "array",
+        items: node.elements.length
+          ? node.elements
+              .map((element) => output(inferExpression(element, scope)))
+              .reduce(union)
+          : {},
+      });
+    default:
+      return UNKNOWN;
+  }
+}
+
+const notNumeric = (type: string) => type !== "number" && type !== "integer";
+
+/** `a.b.c` for a chain of plain member accesses, otherwise undefined */
+function memberPath(node: ExpressionNode): string | undefined {
+  if (node.type === "Identifier") return node.name;
+  if (
+    node.type === "Member" &&
+    !node.computed &&
+    node.property.type === "Literal"
+  ) {
+    const object = memberPath(node.object);
+    return object && `${object}.${node.property.value}`;
+  }
+  return undefined;
+}
+
+function inferSource(source: string, scope: TypegenScope): Resolved {
+  try {
+    return inferExpression(parseExpression(source), scope);
+  } catch {
+    return UNKNOWN;
+  }
+}
+
+/** `a || b || "N/A"`: the first part that resolves to a value wins */
+function inferFallback(path: string, scope: TypegenScope): Resolved {
+  return path
+    .split("||")
+    .map((part) => part.trim())
+    .map((part) =>
+      /^[\w$.]+$/.test(part) && !/^\d/.test(part)
+        ? resolveKey(part, scope)
+        : inferSource(part, scope)
+    )
+    .reduce((a, b) => ({
+      schema: a.nullable ? union(a.schema, b.schema) : a.schema,
+      nullable: a.nullable && b.nullable,
+    }));
+}
+
+/** Apply a nested selection and `limit` to a resolved value */
+function select(
+  value: Resolved,
+  field: QueryDirective,
+  scope: TypegenScope
+): Resolved {
+  const { nested } = field;
+  const limit = typeof field.limit === "number" ? field.limit : undefined;
+  const types = schemaTypes(value.schema, scope.root);
+  const array = (items: JsonSchema): JsonSchema => ({
+    type: "array",
+    items,
+    ...(limit !== undefined && { maxItems: limit }),
+  });
+
+  if (!types.size)
+    return nested
+      ? {
+          schema: {
+            anyOf: [
+              objectSchema(nested, {}, scope, field.discriminator),
+              array(objectSchema(nested, {}, scope, field.discriminator)),
+            ],
+          },
+          nullable: true,
+        }
+      : value;
+
+  const variants: JsonSchema[] = [];
+  for (const type of types) {
+    if (type === "null") continue;
+    if (type === "array") {
+      const items = itemsSchema(value.schema, scope.root);
+      const shaped = array(
+        nested
+          ? objectSchema(
+              nested,
+              withoutNull(items, scope.root),
+              scope,
+              field.discriminator
+            )
+          : inlineRefs(items, scope.root)
+      );
+      variants.push(
+        isPaginated(field)
+          ? pageSchema(shaped, field)
+          : groupSchema(shaped, items, field, scope)
+      );
+    } else if (type === "object" && nested) {
+      variants.push(
+        objectSchema(nested, value.schema, scope, field.discriminator)
+      );
+    } else if (types.size === 1) {
+      variants.push(inlineRefs(value.schema, scope.root));
+    } else {
+      variants.push({ type });
+    }
+  }
+  return {
+    schema: variants.length === 1 ? variants[0] : { anyOf: variants },
+    nullable: value.nullable,
+  };
+}
+
+/** Result of `@aggregate` over items matching `items` */
+function aggregateSchema(
+  spec: AggregateSpec,
+  items: JsonSchema,
+  scope: TypegenScope
+): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+  for (const operation of AGGREGATIONS) {
+    const target = spec[operation as keyof AggregateSpec];
+    if (target === undefined || target === false) continue;
+
+    const valueOf = (path: string | true) =>
+      path === true
+        ? withoutNull(items, scope.root)
+        : lookupPath(items, path, scope.root)?.schema ?? {};
+    const one = (path: string | true): JsonSchema => {
+      if (operation === "count") return { type: "integer" };
+      if (operation === "sum") return { type: "number" };
+      if (operation === "avg") return { type: ["number", "null"] };
+      const value = inlineRefs(valueOf(path), scope.root);
+      return operation === "distinct"
+        ? { type: "array", items: value }
+        : withNull(value);
+    };
+    properties[operation] = Array.isArray(target)
+      ? closed(Object.fromEntries(target.map((path) => [path, one(path)])))
+      : one(operation === "count" && target === true ? true : target);
+  }
+  return closed(properties);
+}
+
+/** Wrap a shaped array in the built-in envelope its field asks for */
+function pageSchema(shaped: JsonSchema, field: QueryDirective): JsonSchema {
+  const integer: JsonSchema = { type: "integer" };
+  const boolean: JsonSchema = { type: "boolean" };
+  const cursor: JsonSchema = { type: "string" };
+  const envelope = envelopeName(field);
+
+  if (envelope === "page")
+    return closed({
+      items: shaped,
+      total: integer,
+      page: integer,
+      pageSize: integer,
+      hasNext: boolean,
+    });
+  if (envelope !== "connection") return {};
+  return closed({
+    edges: {
+      type: "array",
+      items: closed({ cursor, node: shaped.items ?? {} }),
+    },
+    pageInfo: closed({
+      hasNextPage: boolean,
+      hasPreviousPage: boolean,
+      startCursor: withNull(cursor),
+      endCursor: withNull(cursor),
+    }),
+    totalCount: integer,
+  });
+}
+
+/** Apply `@aggregate` and `groupBy` to a shaped array schema */
+function groupSchema(
+  shaped: JsonSchema,
+  items: JsonSchema,
+  field: QueryDirective,
+  scope: TypegenScope
+): JsonSchema {
+  const group = field.aggregate
+    ? aggregateSchema(field.aggregate, items, scope)
+    : shaped;
+  if (field.groupBy === undefined) return group;
+  if (field.groupAs !== "array")
+    return { type: "object", additionalProperties: group };
+
+  const key =
+    typeof field.groupBy === "string"
+      ? lookupPath(items, field.groupBy, scope.root)
+      : undefined;
+  const keySchema = key ? output(key) : {};
+  return {
+    type: "array",
+    items: field.aggregate
+      ? closed({ key: keySchema, ...group.properties })
+      : closed({ key: keySchema, items: group }),
+  };
+}
+
+/** Joined items for literal `@join` arguments from the root */
+function joinSchema(join: JoinSpec, scope: TypegenScope): Resolved {
+  const { from, on, many } = join;
+  if (
+    typeof from !== "string" ||
+    typeof on !== "string" ||
+    isVariableNode(many)
+  )
+    return UNKNOWN;
+  const array = lookupPath(scope.root, from, scope.root);
+  let keys: JoinKeys;
+  try {
+    keys = parseJoinOn(on);
+  } catch {
+    return UNKNOWN;
+  }
+  if (!array) return UNKNOWN;
+
+  const items = withoutNull(itemsSchema(array.schema, scope.root), scope.root);
+  const local = lookupPath(scope.current, keys.local, scope.root);
+  return many || (local && allowsType(local.schema, "array", scope.root))
+    ? { schema: { type: "array", items }, nullable: false }
+    : { schema: items, nullable: true };
+}
+
+function directiveSchema(
+  key: string,
+  field: QueryDirective,
+  scope: TypegenScope
+): JsonSchema {
+  // Named sources are not part of the input schema
+  if (field.source !== undefined) return output(select(UNKNOWN, field, scope));
+
+  let value = field.join
+    ? joinSchema(field.join, scope)
+    : field.expr
+    ? inferSource(field.expr, scope)
+    : field.path
+    ? inferFallback(field.path, scope)
+    : resolveKey(key, scope);
+
+  if (field.default !== undefined && !isVariableNode(field.default))
+    value = value.nullable
+      ? {
+          schema: union(value.schema, inferSchema(field.default)),
+          nullable: field.default === null,
+        }
+      : value;
+  // Custom directives may return anything, except array ones which reorder
+  const opaque = field.directives?.some(
+    ({ name }) => getDirective(name)?.phase !== "array"
+  );
+  if (field.transform || opaque) value = { schema: {}, nullable: true };
+
+  value = select(value, field, scope);
+  if (field.skipIf || field.includeIf) value = { ...value, nullable: true };
+  return output(value);
+}
+
+function objectSchema(
+  queryObj: QueryObject,
+  input: JsonSchema,
+  scope: TypegenScope,
+  discriminator?: string
+): JsonSchema {
+  const inner = { ...scope, current: input };
+  const properties: Record<string, JsonSchema> = {};
+  // Fields of fragments that apply only to some data may be missing
+  const optional = new Set<string>();
+  if (discriminator !== undefined) {
+    const branches = [
+      ...(queryObj.__fragments ?? []).map(
+        (name) => scope.fragments[name]?.__typeCondition
+      ),
+      ...(queryObj.__inlineFragments ?? []).map(
+        (inline) => inline.typeCondition
+      ),
+    ].filter((branch): branch is string => branch !== undefined);
+    properties.__typename = { type: "string", enum: [...new Set(branches)] };
+    // Items matching no branch have no `__typename` without a default one
+    if (!branches.includes("default")) optional.add("__typename");
+  }
+  const merge = (fragment: QueryObject, conditional: boolean) => {
+    const merged = objectSchema(fragment, input, scope).properties!;
+    Object.assign(properties, merged);
+    Object.keys(merged).forEach((key) =>
+      conditional ? optional.add(key) : optional.delete(key)
+    );
+  };
+
+  for (const name of queryObj.__fragments ?? []) {
+    const fragment = scope.fragments[name];
+    if (fragment) merge(fragment, !!fragment.__typeCondition);
+  }
+  for (const inline of queryObj.__inlineFragments ?? [])
+    merge(
+      inline.nested,
+      !!(inline.typeCondition || inline.skipIf || inline.includeIf)
+    );
+
+  for (const key in queryObj) {
+    if (isReservedKey(key)) continue;
+    const field = queryObj[key];
+    optional.delete(key);
+
+    if (typeof field === "function") {
+      properties[key] = {};
+    } else if (isDirectiveObject(field)) {
+      properties[key] = directiveSchema(key, field, inner);
+    } else if (typeof field === "object" && field !== null) {
+      const value = lookupPath(input, key, scope.root);
+      properties[key] = objectSchema(
+        field as QueryObject,
+        value ? value.schema : {},
+        scope
+      );
+    } else if (typeof field === "string") {
+      properties[key] = output(
+        field === key ? resolveKey(key, inner) : inferSource(field, inner)
+      );
+    }
+  }
+
+  const schema = closed(properties);
+  schema.required = schema.required!.filter((key) => !optional.has(key));
+  return schema;
+}
+
+/** JSON Schema of the object `shape` returns for a query and input schema */
+export function resultSchema(
+  query: string | QueryObject,
+  inputSchema: JsonSchema = {},
+  fragments: Record<string, QueryObject> = {}
+): JsonSchema {
+  const queryObj = typeof query === "string" ? parseQuery(query) : query;
+  const root = inputSchema;
+  return objectSchema(queryObj, derefSchema(root, root), {
+    current: root,
+    root,
+    fragments: { ...fragments, ...queryObj.__definitions },
+  });
+}
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+/** Print a (ref-free) JSON Schema as a TypeScript type expression */
+export function schemaToTypeScript(schema: JsonSchema, indent = ""): string {
+  const parts: string[] = [];
+  const union = schema.anyOf ?? schema.oneOf;
+
+  if ("const" in schema) parts.push(JSON.stringify(schema.const));
+  else if (schema.enum)
+    parts.push(...schema.enum.map((value) => JSON.stringify(value)));
+  else if (union)
+    parts.push(...union.map((variant) => schemaToTypeScript(variant, indent)));
+  else {
+    const types = typesList(schema);
+    if (!types.length && schema.properties) types.push("object");
+    if (!types.length && schema.items) types.push("array");
+    if (!types.length) return "unknown";
+    for (const type of types) parts.push(printType(type, schema, indent));
+  }
+  if (schema.nullable || typesList(schema).includes("null")) parts.push("null");
+  if (parts.includes("unknown")) return "unknown";
+  return [...new Set(parts)].join(" | ");
+}
+
+function printType(type: string, schema: JsonSchema, indent: string): string {
+  switch (type) {
+    case "integer":
+      return "number";
+    case "array": {
+      const items = schemaToTypeScript(schema.items ?? {}, indent);
+      return /[|&]/.test(items) && !items.startsWith("{")
+        ? `(${items})[]`
+        : `${items}[]`;
+    }
+    case "object":
+      return printObject(schema, indent);
+    default:
+      return type;
+  }
+}
+
+function printObject(schema: JsonSchema, indent: string): string {
+  const entries = Object.entries(schema.properties ?? {});
+  const extra = schema.additionalProperties;
+  if (!entries.length)
+    return extra === false
+      ? "{}"
+      : `Record<string, ${schemaToTypeScript(
+          typeof extra === "object" ? extra : {},
+          indent
+        )}>`;
+
+  const inner = indent + "  ";
+  const lines = entries.map(([key, value]) => {
+    const name = IDENTIFIER.test(key) ? key : JSON.stringify(key);
+    const optional = schema.required?.includes(key) ? "" : "?";
+    const notes = [
+      value.description,
+      value.maxItems !== undefined && `At most ${value.maxItems} items`,
+    ].filter(Boolean);
+    const comment = notes.length ? `${inner}/** ${notes.join(". ")} */\n` : "";
+    return `${comment}${inner}${name}${optional}: ${schemaToTypeScript(
+      value,
+      inner
+    )};`;
+  });
+  return `{\n${lines.join("\n")}\n${indent}}`;
+}
+
+/**
+ * Generate a TypeScript declaration for the result of shaping input matching
+ * `options.schema` (or `options.sample`) with the query.
+ */
+export function generateTypes(
+  query: string | QueryObject,
+  options: TypegenOptions = {}
+): string {
+  const input =
+    options.schema ??
+    (options.sample !== undefined ? inferSchema(options.sample) : {});
+  const schema = resultSchema(query, input, options.fragments);
+  const name = options.name ?? "ShapeResult";
+  return (
+    "// Generated by rest-shape. Do not edit.\n\n" +
+    `export interface ${name} ${schemaToTypeScript(schema)}\n`
+  );
+}
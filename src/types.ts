@@ -1,18 +1,320 @@
+import type { ExpressionNode } from "./expression";
+import type { QueryParseError } from "./errors";
+
 export type QueryField<T = any> = string | ((data: T) => any) | QueryObject;
 
 export interface QueryObject {
   [key: string]: QueryField | QueryDirective | null | any;
   __fragments?: string[];
+  /** Inline fragments, applied after the named ones */
+  __inlineFragments?: InlineFragment[];
+  /** Fragments defined in the query text (`fragment name on Type { }`) */
+  __definitions?: Record<string, QueryObject>;
+  /** Type a fragment definition applies to */
+  __typeCondition?: string;
+  /** Variables declared in the `query (...)` header */
+  __variables?: VariableDefinitionNode[];
+}
+
+/** `... on Type @include(if: "...") { }`, merged into the enclosing object */
+export interface InlineFragment {
+  /** Applies only to objects whose `__typename` is this or unset */
+  typeCondition?: string;
+  skipIf?: string;
+  includeIf?: string;
+  nested: QueryObject;
 }
 
 export type QueryDirective = {
   path?: string;
+  /** Computed expression evaluated against the current item */
+  expr?: string;
   skipIf?: string;
   includeIf?: string;
   nested?: QueryObject;
   filter?: string;
   default?: any;
   transform?: string;
-  limit?: number;
-  skip?: number;
+  limit?: number | VariableNode;
+  skip?: number | VariableNode;
+  /** Sort keys, applied after `filter` and before `skip`/`limit` */
+  orderBy?: OrderByKey[] | VariableNode;
+  /** Locale for comparing strings in `orderBy` */
+  locale?: string;
+  /** Group array items by this path before shaping them */
+  groupBy?: string | VariableNode;
+  /** Groups as an object keyed by group (default) or `{ key, items }` list */
+  groupAs?: "object" | "array";
+  /** Cursor pagination: number of items to take */
+  first?: number | VariableNode;
+  /** Cursor pagination: opaque cursor of the item to start after */
+  after?: string | VariableNode;
+  /** Page pagination: 1-based page number */
+  page?: number | VariableNode;
+  /** Page pagination: items per page */
+  pageSize?: number | VariableNode;
+  /**
+   * Envelope wrapping a paginated field: "connection" (default for `first`
+   * and `after`), "page" (default for `page` and `pageSize`) or the name of
+   * one of `ShapeOptions.envelopes`
+   */
+  envelope?: string;
+  /** Arguments of `@aggregate`, replacing the items with summary values */
+  aggregate?: AggregateSpec;
+  /** Path identifying array items, matching them across `shapeDiff` snapshots */
+  key?: string;
+  /** Path of the item field whose value picks the `... on value` branch */
+  discriminator?: string;
+  /** Arguments of `@join`, replacing the value with the matching items */
+  join?: JoinSpec;
+  /**
+   * Named source of a multi-source root (`crm::path` or `@source(name:)`)
+   * the field, its directives and its selection are resolved in
+   */
+  source?: string;
+  /** Registered directives other than the built-ins, in query order */
+  directives?: AppliedDirective[];
 };
+
+/** `@join(from: "users", on: "authorId = id", many: false)` */
+export interface JoinSpec {
+  /** Path of the array to join, from the root or a `name::` source */
+  from: string | VariableNode;
+  /** `localPath = foreignPath` */
+  on: string | VariableNode;
+  /** Return every match (one-to-many) instead of the first one */
+  many?: boolean | VariableNode;
+}
+
+/** One key of an `orderBy` argument, e.g. `likes desc nulls first` */
+export interface OrderByKey {
+  path: string;
+  direction: "asc" | "desc";
+  nulls: "first" | "last";
+}
+
+/** A page of shaped items, as handed to a pagination envelope */
+export interface Page {
+  items: any[];
+  /** Opaque cursor of each item, in the same order as `items` */
+  cursors: string[];
+  /** Number of items before pagination */
+  total: number;
+  /** Index of the first item of the page */
+  offset: number;
+  /** 1-based page number; derived from `offset` for cursor pagination */
+  page: number;
+  pageSize: number;
+  hasNext: boolean;
+  hasPrevious: boolean;
+}
+
+/** Builds the output of a paginated field from its page */
+export type Envelope = (page: Page) => any;
+
+/** `@aggregate` operations: a field path, several paths, or `true` for the items */
+export type AggregateSpec = Partial<
+  Record<
+    "count" | "sum" | "avg" | "min" | "max" | "distinct",
+    boolean | string | string[]
+  >
+>;
+
+/** A custom directive as written on a field, e.g. `@currency(code: "EUR")` */
+export interface AppliedDirective {
+  name: string;
+  args: Record<string, any>;
+}
+
+/**
+ * When a directive runs: "before" the field value is resolved, "after" it is
+ * resolved, or on an "array" value after `filter` and before `skip`/`limit`.
+ */
+export type DirectivePhase = "before" | "after" | "array";
+
+/** What a directive can see about the field it is applied to */
+export interface DirectiveContext {
+  /** Output key of the field */
+  key: string;
+  /** The object the field is read from */
+  data: any;
+  root: any;
+  mode: EvaluationMode;
+  variables: Record<string, any>;
+  helpers: Helpers;
+  /** Evaluate a query expression against `data` */
+  evaluate(expr: string): any;
+  /** Apply a `@transform` expression to `value`, with `data` in scope */
+  transform(fn: string, value: any): any;
+}
+
+export interface DirectiveDefinition {
+  /** Accepted argument names; any other argument is a parse error */
+  args?: string[];
+  phase: DirectivePhase;
+  /**
+   * "after" and "array" directives return the new value. "before" directives
+   * receive `undefined` and return `undefined` to let the field resolve, or
+   * any other value (including `null`) to use it instead.
+   */
+  apply(value: any, args: Record<string, any>, ctx: DirectiveContext): any;
+}
+
+/** Named functions callable from expressions and as pipe stages */
+export type Helpers = Record<string, (...args: any[]) => any>;
+
+/** How query expressions are evaluated */
+export type EvaluationMode = "safe" | "unsafe";
+
+export interface ParseOptions {
+  /** Throw a QueryParseError on the first syntax error */
+  strict?: boolean;
+  /** Receives syntax errors recovered from in lenient mode */
+  diagnostics?: QueryParseError[];
+}
+
+export interface ShapeOptions extends ParseOptions {
+  /**
+   * "unsafe" (default) runs expressions through `Function` with full access to
+   * globals; "safe" uses the sandboxed interpreter, which never calls
+   * `Function` and only reaches data, root and whitelisted methods.
+   */
+  mode?: EvaluationMode;
+  fragments?: Record<string, QueryObject>;
+  rootData?: any;
+  /** Values for `$name` variables, keyed by name without the `$` */
+  variables?: Record<string, any>;
+  /**
+   * Functions for pipes and calls, added to (or overriding) the standard
+   * helpers. Data and root fields take precedence in plain calls.
+   */
+  helpers?: Helpers;
+  /** Pagination envelopes selectable with `envelope:`, next to the built-ins */
+  envelopes?: Record<string, Envelope>;
+  /**
+   * How fields missing from the data are looked up in the root: a policy
+   * name, or a policy with a depth limit. Default `"depthFirst"`.
+   */
+  autoResolve?: AutoResolvePolicy | AutoResolveOptions;
+  /**
+   * Read every field as a dot-path of its own parent only: no expressions,
+   * no `||` fallbacks and no lookups in the root
+   */
+  pathsOnly?: boolean;
+}
+
+/**
+ * Root search for fields missing from the data: `off` never searches,
+ * `shallow` only reads the root's own keys, `depthFirst` takes the first
+ * match in key order, `breadthFirst` takes the shallowest match and
+ * `unique` requires exactly one match anywhere.
+ */
+export type AutoResolvePolicy =
+  | "off"
+  | "shallow"
+  | "depthFirst"
+  | "breadthFirst"
+  | "unique";
+
+export interface AutoResolveOptions {
+  policy?: AutoResolvePolicy;
+  /** Deepest nesting level searched; the root's own keys are level 0 */
+  maxDepth?: number;
+}
+
+/** Options of `shapeAsync` */
+export interface AsyncShapeOptions extends ShapeOptions {
+  /** Most function fields `shapeAsync` runs at once (default: no limit) */
+  concurrency?: number;
+}
+
+/** Reusable function returned by `compile` */
+export type Shaper = <T>(data: T, variables?: Record<string, any>) => any;
+
+// ======================================================
+// Query AST (produced by parseDocument)
+// ======================================================
+
+/** 1-based position of a node in the query source */
+export interface SourceLocation {
+  line: number;
+  column: number;
+}
+
+export interface DocumentNode {
+  kind: "Document";
+  /** Operation name from a `query Name (...)` header */
+  name?: string;
+  variables?: VariableDefinitionNode[];
+  selections: SelectionNode[];
+  /** `fragment name on Type { }` definitions, in query order */
+  fragments?: FragmentDefinitionNode[];
+}
+
+/** `$name` reference used as an argument value */
+export interface VariableNode {
+  kind: "Variable";
+  /** Variable name without the leading `$` */
+  name: string;
+}
+
+export type TypeNode =
+  | { kind: "NamedType"; name: string; nonNull: boolean }
+  | { kind: "ListType"; ofType: TypeNode; nonNull: boolean };
+
+export interface VariableDefinitionNode {
+  kind: "VariableDefinition";
+  /** Variable name without the leading `$` */
+  name: string;
+  type: TypeNode;
+  defaultValue?: any;
+  loc: SourceLocation;
+}
+
+export type SelectionNode = FieldNode | FragmentSpreadNode | InlineFragmentNode;
+
+export interface FieldNode {
+  kind: "Field";
+  /** Output key: the alias when one is given, otherwise the field name */
+  name: string;
+  /** Target of an aliased field (`alias: expression`) */
+  expression?: ExpressionNode;
+  /** Source text of `expression` */
+  source?: string;
+  /** Data source named by a `name::` prefix */
+  dataSource?: string;
+  arguments: Record<string, any>;
+  directives: DirectiveNode[];
+  selections?: SelectionNode[];
+  loc: SourceLocation;
+}
+
+export interface DirectiveNode {
+  kind: "Directive";
+  name: string;
+  arguments: Record<string, any>;
+  loc: SourceLocation;
+}
+
+export interface FragmentSpreadNode {
+  kind: "FragmentSpread";
+  name: string;
+  loc: SourceLocation;
+}
+
+export interface InlineFragmentNode {
+  kind: "InlineFragment";
+  /** Type named by `... on Type` */
+  typeCondition?: string;
+  directives: DirectiveNode[];
+  selections: SelectionNode[];
+  loc: SourceLocation;
+}
+
+export interface FragmentDefinitionNode {
+  kind: "FragmentDefinition";
+  name: string;
+  typeCondition: string;
+  selections: SelectionNode[];
+  loc: SourceLocation;
+}
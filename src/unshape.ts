@@ -0,0 +1,187 @@
+import { QueryDirective, QueryObject } from "./types";
+import { isDirectiveObject, isReservedKey } from "./utils";
+import { parseQueryCached } from "./parser";
+import { isVariableNode } from "./variables";
+import { JsonPatchOperation, sameValue, toPointer } from "./patch";
+
+/** A shaped field `unshape` cannot write back, and why */
+export interface NotInvertible {
+  /** Dot-path of the field in the shaped object */
+  path: string;
+  reason: string;
+}
+
+export interface UnshapeOptions {
+  fragments?: Record<string, QueryObject>;
+  /**
+   * The data that was shaped. Values equal to it are left out of the patch,
+   * and operations replace values it has instead of adding them.
+   */
+  original?: any;
+}
+
+export interface UnshapeResult {
+  /** The written values in the source's structure, array items by index */
+  patch: Record<string, any>;
+  /** The same writes as JSON Patch `add` and `replace` operations */
+  operations: JsonPatchOperation[];
+  notInvertible: NotInvertible[];
+}
+
+/** Plain dot-paths, the only targets that can be written back */
+const PATH = /^[A-Za-z_$][\w$]*(?:\.[\w$]+)*$/;
+
+/** Arguments after which items no longer line up with the source array */
+const REORDERING: (keyof QueryDirective)[] = [
+  "filter",
+  "orderBy",
+  "groupBy",
+  "aggregate",
+  "first",
+  "after",
+  "page",
+  "pageSize",
+];
+
+interface UnshapeScope {
+  fragments: Record<string, QueryObject>;
+  original: any;
+  result: UnshapeResult;
+}
+
+/** The value at a path of `data`, and whether every segment exists */
+function lookup(data: any, segments: string[]) {
+  let current = data;
+  for (const segment of segments) {
+    if (
+      current === null ||
+      typeof current !== "object" ||
+      !(segment in current)
+    )
+      return { found: false, value: undefined };
+    current = current[segment];
+  }
+  return { found: true, value: current };
+}
+
+function write(segments: string[], value: any, scope: UnshapeScope) {
+  const { found, value: before } = lookup(scope.original, segments);
+  if (found && sameValue(before, value)) return;
+
+  let target = scope.result.patch;
+  segments.slice(0, -1).forEach((segment) => {
+    if (typeof target[segment] !== "object" || target[segment] === null)
+      target[segment] = {};
+    target = target[segment];
+  });
+  target[segments[segments.length - 1]] = value;
+  scope.result.operations.push({
+    op: found ? "replace" : "add",
+    path: toPointer(segments),
+    value,
+  });
+}
+
+/** Why a directive field cannot be written back, if it cannot */
+function notInvertible(field: QueryDirective): string | undefined {
+  if (field.expr) return "computed expression";
+  if (field.path?.includes("||")) return "fallback between paths";
+  if (field.path && !PATH.test(field.path)) return "computed expression";
+  if (field.path?.endsWith(".length")) return "length";
+  if (field.transform) return "@transform";
+  if (field.directives?.length) return `@${field.directives[0].name}`;
+  if (field.join) return "@join";
+  if (field.source !== undefined) return "named source";
+  const reordering = REORDERING.find((arg) => field[arg] !== undefined);
+  if (reordering) return `"${reordering}" changes the items`;
+  if (isVariableNode(field.skip)) return '"skip" from a variable';
+  if (isVariableNode(field.default)) return '"@default" from a variable';
+}
+
+function unshapeObject(
+  shaped: any,
+  queryObj: QueryObject,
+  source: string[],
+  output: string[],
+  scope: UnshapeScope
+) {
+  if (shaped === null || typeof shaped !== "object") return;
+  for (const name of queryObj.__fragments ?? []) {
+    const fragment = scope.fragments[name];
+    if (fragment) unshapeObject(shaped, fragment, source, output, scope);
+  }
+  for (const inline of queryObj.__inlineFragments ?? [])
+    unshapeObject(shaped, inline.nested, source, output, scope);
+
+  for (const key in queryObj) {
+    if (isReservedKey(key) || !(key in shaped)) continue;
+    const field = queryObj[key];
+    const value = shaped[key];
+    const at = [...output, key];
+    const refuse = (reason: string) =>
+      scope.result.notInvertible.push({ path: at.join("."), reason });
+
+    if (typeof field === "string") {
+      if (field !== key && !PATH.test(field)) refuse("computed expression");
+      else if (field.endsWith(".length")) refuse("length");
+      else write([...source, ...field.split(".")], value, scope);
+    } else if (typeof field === "function") {
+      refuse("function field");
+    } else if (isDirectiveObject(field)) {
+      const reason = notInvertible(field);
+      if (reason) {
+        refuse(reason);
+        continue;
+      }
+      // A skipped field is `null` whatever the source holds
+      if ((field.skipIf || field.includeIf) && value === null) continue;
+      const target = [...source, ...(field.path ?? key).split(".")];
+      // The placeholder for a missing value is not written back
+      if (
+        field.default !== undefined &&
+        sameValue(value, field.default) &&
+        lookup(scope.original, target).value == null
+      )
+        continue;
+      if (!field.nested) write(target, value, scope);
+      else if (Array.isArray(value)) {
+        const offset = typeof field.skip === "number" ? field.skip : 0;
+        value.forEach((item, i) =>
+          unshapeObject(
+            item,
+            field.nested!,
+            [...target, String(offset + i)],
+            [...at, String(i)],
+            scope
+          )
+        );
+      } else unshapeObject(value, field.nested, target, at, scope);
+    } else if (typeof field === "object" && field !== null) {
+      unshapeObject(value, field, [...source, key], at, scope);
+    }
+  }
+}
+
+/**
+ * Map a shaped object back onto the structure of the data it came from:
+ * every plain field, `alias: path` and nested block writes its value at its
+ * source path. Arrays are written item by item at their source index, so
+ * `filter`, `orderBy`, grouping and pagination make them not invertible, as
+ * are computed fields, fallbacks, `@transform` and other directives.
+ * `@skip`/`@include` fields are only written when they hold a value, and
+ * `@default` fields only when they differ from the default.
+ */
+export function unshape(
+  shaped: any,
+  query: string | QueryObject,
+  options: UnshapeOptions = {}
+): UnshapeResult {
+  const queryObj = typeof query === "string" ? parseQueryCached(query) : query;
+  const scope: UnshapeScope = {
+    fragments: { ...options.fragments, ...queryObj.__definitions },
+    original: options.original,
+    result: { patch: {}, operations: [], notInvertible: [] },
+  };
+  unshapeObject(shaped, queryObj, [], [], scope);
+  return scope.result;
+}
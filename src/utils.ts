@@ -1,33 +1,172 @@
-import { QueryDirective } from "./types";
+import {
+  AsyncShapeOptions,
+  AutoResolveOptions,
+  AutoResolvePolicy,
+  EvaluationMode,
+  Helpers,
+  QueryDirective,
+  ShapeOptions,
+} from "./types";
+import { callHelper, compileExpression, toJavaScript } from "./expression";
+import { cached } from "./cache";
+import { isVariableNode } from "./variables";
+import { parseOrderBy } from "./sort";
+import { AmbiguousKeyError } from "./errors";
+
+/** Directives lowered from query text */
+const loweredDirectives = new WeakSet<object>();
+
+/**
+ * Keys that mark a hand-written object in a QueryObject as a QueryDirective.
+ * Newer arguments are common field names, so they only count in lowered
+ * directives.
+ */
+const DIRECTIVE_KEYS: (keyof QueryDirective)[] = [
+  "path",
+  "skipIf",
+  "includeIf",
+  "nested",
+  "filter",
+  "default",
+  "transform",
+  "limit",
+  "skip",
+];
+
+/** Mark an object built by the parser as a QueryDirective */
+export function markDirective(directive: QueryDirective): QueryDirective {
+  loweredDirectives.add(directive);
+  return directive;
+}
 
 /** Check if a field is a QueryDirective object */
 export function isDirectiveObject(field: any): field is QueryDirective {
   return (
     typeof field === "object" &&
     field !== null &&
-    ("path" in field ||
-      "skipIf" in field ||
-      "includeIf" in field ||
-      "nested" in field ||
-      "filter" in field ||
-      "default" in field ||
-      "transform" in field ||
-      "limit" in field ||
-      "skip" in field)
+    (loweredDirectives.has(field) || DIRECTIVE_KEYS.some((key) => key in field))
   );
 }
 
-/** Auto resolve a key from nested objects */
-export function autoResolve(obj: any, key: string): any {
-  if (obj == null) return null;
-  if ((obj as Record<string, any>)[key] !== undefined)
-    return (obj as Record<string, any>)[key];
-  for (const k of Object.keys(obj)) {
-    const val = (obj as Record<string, any>)[k];
-    if (typeof val === "object" && val !== null) {
-      const found = autoResolve(val, key);
-      if (found !== null) return found;
+const RESERVED_KEYS = new Set([
+  "__fragments",
+  "__inlineFragments",
+  "__definitions",
+  "__typeCondition",
+  "__variables",
+]);
+
+/** Check if a QueryObject key holds metadata rather than a field */
+export function isReservedKey(key: string) {
+  return RESERVED_KEYS.has(key);
+}
+
+/** Every option key; typed so a new option cannot be left out */
+const SHAPE_OPTION_KEYS: Record<keyof AsyncShapeOptions, true> = {
+  mode: true,
+  fragments: true,
+  rootData: true,
+  strict: true,
+  diagnostics: true,
+  variables: true,
+  helpers: true,
+  envelopes: true,
+  autoResolve: true,
+  pathsOnly: true,
+  concurrency: true,
+};
+
+/**
+ * Check if the argument after the query is a ShapeOptions object rather than
+ * a fragments map: it has an option key, or a value that is no QueryObject
+ */
+export function isShapeOptions(value: any): value is ShapeOptions {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    Object.entries(value).some(
+      ([key, field]) =>
+        Object.prototype.hasOwnProperty.call(SHAPE_OPTION_KEYS, key) ||
+        typeof field !== "object" ||
+        field === null ||
+        Array.isArray(field)
+    )
+  );
+}
+
+/**
+ * Search `obj` for `key` by the given policy (default `"depthFirst"`).
+ * Keys are searched in order and every object is visited once, so cyclic
+ * data terminates. Returns `null` when nothing matches; `unique` throws an
+ * AmbiguousKeyError when more than one key does.
+ */
+export function autoResolve(
+  obj: any,
+  key: string,
+  options: AutoResolvePolicy | AutoResolveOptions = {}
+): any {
+  const { policy = "depthFirst", maxDepth = Infinity } =
+    typeof options === "string" ? { policy: options } : options;
+  if (obj == null || policy === "off") return null;
+  const depthLimit = policy === "shallow" ? 0 : maxDepth;
+  if (policy === "depthFirst")
+    return searchDepthFirst(obj, key, depthLimit, 0, new Set([obj]));
+
+  const matches: { path: string; value: any }[] = [];
+  const visited = new Set<object>([obj]);
+  let level: { path: string; value: any }[] = [{ path: "", value: obj }];
+  for (let depth = 0; level.length && depth <= depthLimit; depth++) {
+    const next: typeof level = [];
+    for (const { path, value } of level) {
+      for (const k of Object.keys(value)) {
+        const child = value[k];
+        const childPath = path ? `${path}.${k}` : k;
+        if (k === key && child !== undefined) {
+          if (policy !== "unique") return child;
+          matches.push({ path: childPath, value: child });
+        }
+        if (
+          typeof child === "object" &&
+          child !== null &&
+          !visited.has(child)
+        ) {
+          visited.add(child);
+          next.push({ path: childPath, value: child });
+        }
+      }
     }
+    level = next;
+  }
+
+  if (matches.length > 1)
+    throw new AmbiguousKeyError(
+      key,
+      matches.map((match) => match.path)
+    );
+  return matches[0]?.value ?? null;
+}
+
+/** The first match in pre-order whose value is not `null` */
+function searchDepthFirst(
+  value: any,
+  key: string,
+  maxDepth: number,
+  depth: number,
+  visited: Set<object>
+): any {
+  if (
+    Object.prototype.hasOwnProperty.call(value, key) &&
+    value[key] !== undefined
+  )
+    return value[key];
+  if (depth >= maxDepth) return null;
+  for (const k of Object.keys(value)) {
+    const child = value[k];
+    if (typeof child !== "object" || child === null || visited.has(child))
+      continue;
+    visited.add(child);
+    const found = searchDepthFirst(child, key, maxDepth, depth + 1, visited);
+    if (found !== null) return found;
   }
   return null;
 }
@@ -41,29 +180,138 @@ export function getByPath(obj: any, path: string) {
   );
 }
 
-/** Evaluate JS expression safely with `data` in scope */
-export function evalNestedField(expr: string, data: any, root: any) {
+type Variables = Record<string, any>;
+export type FieldEvaluator = (
+  data: any,
+  root: any,
+  variables?: Variables,
+  helpers?: Helpers
+) => any;
+export type TransformEvaluator = (
+  value: any,
+  data: any,
+  variables?: Variables,
+  helpers?: Helpers
+) => any;
+
+const unsafeFields = new Map<string, FieldEvaluator>();
+const unsafeTransforms = new Map<string, TransformEvaluator>();
+
+/** Runs a pipe stage inside unsafe `Function` bodies */
+const pipe = (helpers: Helpers, name: string, input: any, ...args: any[]) =>
+  callHelper(helpers, name, input, args);
+
+/** Build a `Function`, deferring a syntax error until the result is called */
+function unsafeFunction(params: string[], body: string): any {
   try {
-    return Function(
-      "data",
-      "root",
+    return Function(...params, body);
+  } catch (err) {
+    return () => {
+      throw err;
+    };
+  }
+}
+
+/**
+ * Compile a field expression once into an evaluator with `data`, `root`,
+ * `$name` variables and helpers in scope. Compiled functions are cached by
+ * expression text and mode.
+ */
+export function compileField(
+  expr: string,
+  mode: EvaluationMode = "unsafe"
+): FieldEvaluator {
+  if (mode === "safe") {
+    const run = compileExpression(expr);
+    return (data, root, variables, helpers) =>
+      run([variables, root, data, helpers], helpers);
+  }
+  const run = cached(unsafeFields, expr, () =>
+    unsafeFunction(
+      ["data", "root", "variables", "__helpers", "__pipe"],
       `
-      with(data){
-        with(root){
-          return ${expr};
+      with(__helpers){
+        with(variables){
+          with(data){
+            with(root){
+              return ${toJavaScript(expr)};
+            }
+          }
         }
       }
     `
-    )(data, root);
+    )
+  );
+  return (data, root, variables = {}, helpers = {}) =>
+    run(data, root, variables, helpers, pipe);
+}
+
+/** Compile a `@transform` expression once into a `(value, data)` evaluator */
+export function compileTransform(
+  fn: string,
+  mode: EvaluationMode = "unsafe"
+): TransformEvaluator {
+  if (mode === "safe") {
+    const run = compileExpression(fn);
+    return (value, data, variables, helpers) =>
+      run([variables, data, { value }, helpers], helpers);
+  }
+  const run = cached(unsafeTransforms, fn, () =>
+    unsafeFunction(
+      ["value", "data", "variables", "__helpers", "__pipe"],
+      `with(__helpers){ with(variables){ with(data){ return ${toJavaScript(
+        fn
+      )} } } }`
+    )
+  );
+  return (value, data, variables = {}, helpers = {}) =>
+    run(value, data, variables, helpers, pipe);
+}
+
+/**
+ * Evaluate a JS expression with `data` and `root` in scope. In "safe" mode
+ * the expression runs in the sandboxed interpreter instead of `Function`.
+ * An evaluator in `compiled` is used instead of compiling the expression.
+ */
+export function evalNestedField(
+  expr: string,
+  data: any,
+  root: any,
+  mode: EvaluationMode = "unsafe",
+  variables?: Variables,
+  helpers?: Helpers,
+  compiled?: Map<string, FieldEvaluator>
+) {
+  try {
+    const run = compiled?.get(expr) ?? compileField(expr, mode);
+    return run(data, root, variables, helpers);
   } catch {
     return null;
   }
 }
 
+/** Apply a `@transform` expression to `value`, returning `value` on failure */
+export function applyTransform(
+  fn: string,
+  value: any,
+  data: any,
+  mode: EvaluationMode = "unsafe",
+  variables?: Variables,
+  helpers?: Helpers,
+  compiled?: Map<string, TransformEvaluator>
+) {
+  try {
+    const run = compiled?.get(fn) ?? compileTransform(fn, mode);
+    return run(value, data, variables, helpers);
+  } catch {
+    return value;
+  }
+}
+
 /** Deep merge objects */
 export function mergeDeep(target: any, source: any) {
   for (const key in source) {
-    if (key === "__fragments") continue;
+    if (isReservedKey(key)) continue;
     if (
       source[key] &&
       typeof source[key] === "object" &&
@@ -78,6 +326,26 @@ export function mergeDeep(target: any, source: any) {
   return target;
 }
 
+const INTEGER_ARGS = ["limit", "skip", "first", "page", "pageSize"];
+
+/** Check if a field argument only takes an integer */
+export function isIntegerArg(name: string) {
+  return INTEGER_ARGS.includes(name);
+}
+
+/** Coerce raw field arguments into their QueryDirective types */
+export function coerceArgs(args: Record<string, any>): Record<string, any> {
+  const result: Record<string, any> = {};
+  for (const [k, v] of Object.entries(args)) {
+    if (isIntegerArg(k) && !isVariableNode(v))
+      result[k] = parseInt(String(v), 10);
+    else if (k === "orderBy" && typeof v === "string")
+      result[k] = parseOrderBy(v);
+    else result[k] = v;
+  }
+  return result;
+}
+
 /** Parse directive arguments */
 export function parseArgs(argsStr: string): Record<string, any> {
   const args: Record<string, any> = {};
@@ -85,6 +353,11 @@ export function parseArgs(argsStr: string): Record<string, any> {
   let inQuotes = false;
   let quoteChar = "";
 
+  const flush = () => {
+    const [k, v] = current.split(":").map((s) => s.trim());
+    if (k) args[k] = v.replace(/^["']|["']$/g, "");
+  };
+
   for (let i = 0; i < argsStr.length; i++) {
     const c = argsStr[i];
     if ((c === '"' || c === "'") && !inQuotes) {
@@ -95,24 +368,14 @@ export function parseArgs(argsStr: string): Record<string, any> {
       inQuotes = false;
       current += c;
     } else if (c === "," && !inQuotes) {
-      const [k, v] = current.split(":").map((s) => s.trim());
-      if (k) {
-        if (["limit", "skip"].includes(k)) args[k] = parseInt(v, 10);
-        else args[k] = v.replace(/^["']|["']$/g, "");
-      }
+      flush();
       current = "";
     } else {
       current += c;
     }
   }
 
-  if (current) {
-    const [k, v] = current.split(":").map((s) => s.trim());
-    if (k) {
-      if (["limit", "skip"].includes(k)) args[k] = parseInt(v, 10);
-      else args[k] = v.replace(/^["']|["']$/g, "");
-    }
-  }
+  if (current) flush();
 
-  return args;
+  return coerceArgs(args);
 }
@@ -0,0 +1,313 @@
+import {
+  AutoResolvePolicy,
+  QueryDirective,
+  QueryObject,
+  SelectionNode,
+  SourceLocation,
+} from "./types";
+import { isDirectiveObject, isReservedKey } from "./utils";
+import { lowerDocument, parseDocument } from "./parser";
+import { QueryValidationError } from "./errors";
+import {
+  JsonSchema,
+  JsonSchemaType,
+  derefSchema,
+  findProperty,
+  itemsSchema,
+  propertySchema,
+  schemaTypes,
+} from "./schema";
+
+export interface ValidateOptions {
+  fragments?: Record<string, QueryObject>;
+  /**
+   * Document `$ref`s resolve against, e.g. the OpenAPI document holding the
+   * response schema. Defaults to the input schema itself.
+   */
+  document?: JsonSchema;
+  /** Root search `shape` will use for missing fields (default "depthFirst") */
+  autoResolve?: AutoResolvePolicy;
+}
+
+interface ValidationScope {
+  /** Schema of the data passed to `shape`, which missing fields fall back to */
+  input: JsonSchema;
+  document: JsonSchema;
+  fragments: Record<string, QueryObject>;
+  /** Fragments being validated, to stop at cycles */
+  spreading: Set<string>;
+  autoResolve: AutoResolvePolicy;
+  errors: QueryValidationError[];
+}
+
+/** Arguments that only apply to arrays */
+const ARRAY_ARGS: (keyof QueryDirective)[] = [
+  "filter",
+  "orderBy",
+  "limit",
+  "skip",
+  "first",
+  "after",
+  "page",
+  "pageSize",
+  "groupBy",
+  "aggregate",
+];
+
+const SCALARS = new Set<JsonSchemaType>([
+  "string",
+  "number",
+  "integer",
+  "boolean",
+]);
+
+/** Bare dot-paths, as opposed to expressions and literals */
+const PATH = /^[A-Za-z_$][\w$]*(?:\.[\w$]+)*$/;
+const LITERAL_NAMES = new Set(["true", "false", "null", "undefined"]);
+
+const describe = (types: Set<JsonSchemaType>) =>
+  [...types].filter((type) => type !== "null").join(" | ") || "null";
+
+/** Schema of a field the data lacks, found in the input by the policy */
+function resolveKey(
+  key: string,
+  current: JsonSchema,
+  scope: ValidationScope
+): JsonSchema | undefined {
+  const { input, document, autoResolve } = scope;
+  const own = propertySchema(current, key, document);
+  if (own || autoResolve === "off") return own?.schema;
+  const top = propertySchema(input, key, document);
+  if (top || autoResolve === "shallow") return top?.schema;
+  return findProperty(input, key, document);
+}
+
+/**
+ * Walk a dot-path through a schema. Returns the schema at the end of the
+ * path, or the segment that does not exist and how many segments before it
+ * did.
+ */
+function walkPath(
+  schema: JsonSchema,
+  path: string,
+  document: JsonSchema
+): { schema: JsonSchema } | { missing: string; found: number } {
+  let current = schema;
+  for (const [found, segment] of path.split(".").entries()) {
+    const types = schemaTypes(current, document);
+    if (segment === "length" && (types.has("array") || types.has("string")))
+      return { schema: { type: "integer" } };
+    if (/^\d+$/.test(segment) && types.has("array")) {
+      current = itemsSchema(current, document);
+      continue;
+    }
+    const property = propertySchema(current, segment, document);
+    if (!property) return { missing: segment, found };
+    current = property.schema;
+  }
+  return { schema: current };
+}
+
+/**
+ * Schema at a dot-path from the data or, like `shape`, from the input. A
+ * single name falls back to the autoResolve search.
+ */
+function resolvePath(
+  path: string,
+  current: JsonSchema,
+  scope: ValidationScope
+): { schema: JsonSchema } | { error: string } {
+  if (!path.includes(".")) {
+    const schema = resolveKey(path, current, scope);
+    return schema ? { schema } : { error: `Unknown field "${path}"` };
+  }
+  const local = walkPath(current, path, scope.document);
+  if ("schema" in local) return local;
+  const fromInput = walkPath(scope.input, path, scope.document);
+  if ("schema" in fromInput) return fromInput;
+  // Report the walk that got further, which holds the likely typo
+  const { missing } = fromInput.found > local.found ? fromInput : local;
+  return { error: `Unknown path "${path}": no field "${missing}"` };
+}
+
+function validateObject(
+  queryObj: QueryObject,
+  current: JsonSchema,
+  path: string[],
+  nodes: SelectionNode[] | undefined,
+  scope: ValidationScope
+) {
+  for (const name of queryObj.__fragments ?? []) {
+    const fragment = scope.fragments[name];
+    const spread = nodes?.find(
+      (selection) =>
+        selection.kind === "FragmentSpread" && selection.name === name
+    );
+    const report = (message: string) =>
+      scope.errors.push(
+        new QueryValidationError(message, path.join("."), spread?.loc)
+      );
+    if (!fragment) report(`Unknown fragment "...${name}"`);
+    else if (scope.spreading.has(name))
+      report(`Fragment "...${name}" spreads itself`);
+    else {
+      scope.spreading.add(name);
+      validateObject(fragment, current, path, undefined, scope);
+      scope.spreading.delete(name);
+    }
+  }
+  const inlineNodes = nodes?.filter(
+    (selection) => selection.kind === "InlineFragment"
+  );
+  queryObj.__inlineFragments?.forEach((inline, i) => {
+    const node = inlineNodes?.[i];
+    const children = node?.kind === "InlineFragment" ? node.selections : [];
+    validateObject(inline.nested, current, path, node && children, scope);
+  });
+
+  for (const key in queryObj) {
+    if (isReservedKey(key)) continue;
+    const field = queryObj[key];
+    // The last selection of a key wins, as when lowering
+    const node = nodes
+      ?.filter((selection) => selection.kind === "Field")
+      .filter((selection) => selection.name === key)
+      .pop();
+    const at = [...path, key];
+    const report = (message: string) =>
+      scope.errors.push(
+        new QueryValidationError(message, at.join("."), node?.loc)
+      );
+
+    if (isDirectiveObject(field)) {
+      const children = node?.kind === "Field" ? node.selections : undefined;
+      validateDirective(key, field, current, at, node?.loc, children, scope);
+    } else if (typeof field === "object" && field !== null) {
+      const value = propertySchema(current, key, scope.document);
+      if (value) validateObject(field, value.schema, at, undefined, scope);
+      else report(`Unknown field "${key}"`);
+    } else if (
+      typeof field === "string" &&
+      PATH.test(field) &&
+      !LITERAL_NAMES.has(field)
+    ) {
+      const value = resolvePath(field, current, scope);
+      if ("error" in value) report(value.error);
+    }
+  }
+}
+
+function validateDirective(
+  key: string,
+  field: QueryDirective,
+  current: JsonSchema,
+  path: string[],
+  loc: SourceLocation | undefined,
+  nodes: SelectionNode[] | undefined,
+  scope: ValidationScope
+) {
+  const { document } = scope;
+  const report = (message: string) =>
+    scope.errors.push(new QueryValidationError(message, path.join("."), loc));
+  // Named sources and joined arrays are not described by the input schema
+  if (field.source !== undefined || field.join) return;
+
+  let value: JsonSchema | undefined = {};
+  if (field.path) {
+    value = undefined;
+    for (const part of field.path.split("||").map((p) => p.trim())) {
+      if (!PATH.test(part) || LITERAL_NAMES.has(part)) continue;
+      const resolved = resolvePath(part, current, scope);
+      if ("error" in resolved) report(resolved.error);
+      else value ??= resolved.schema;
+    }
+    if (!value) return;
+  } else if (!field.expr) {
+    value = resolveKey(key, current, scope);
+    if (!value) {
+      report(`Unknown field "${key}"`);
+      return;
+    }
+  }
+
+  const types = schemaTypes(value, document);
+  const known = types.size > 0;
+  const arrayArgs = ARRAY_ARGS.filter((arg) => field[arg] !== undefined);
+  if (known && arrayArgs.length && !types.has("array"))
+    report(
+      `${arrayArgs.map((arg) => `"${arg}"`).join(", ")} expects an array, ` +
+        `but "${key}" is ${describe(types)}`
+    );
+
+  const items = types.has("array") ? itemsSchema(value, document) : {};
+  if (typeof field.groupBy === "string" && types.has("array")) {
+    const group = walkPath(items, field.groupBy, document);
+    if ("missing" in group)
+      report(
+        `Unknown groupBy path "${field.groupBy}": no field "${group.missing}"`
+      );
+  }
+  if (Array.isArray(field.orderBy) && types.has("array"))
+    for (const { path: sortPath } of field.orderBy) {
+      const sort = walkPath(items, sortPath, document);
+      if ("missing" in sort)
+        report(
+          `Unknown orderBy path "${sortPath}": no field "${sort.missing}"`
+        );
+    }
+
+  if (!field.nested) return;
+  if (
+    known &&
+    [...types].every((type) => SCALARS.has(type) || type === "null")
+  ) {
+    report(`Cannot select subfields of "${key}", which is ${describe(types)}`);
+    return;
+  }
+  const targets: JsonSchema[] = [];
+  if (types.has("array")) targets.push(items);
+  if (types.has("object")) targets.push(value);
+  const input =
+    targets.length === 1
+      ? targets[0]
+      : targets.length
+      ? { anyOf: targets }
+      : {};
+  validateObject(field.nested, input, path, nodes, scope);
+}
+
+/**
+ * Check a query against a JSON Schema (or OpenAPI schema object) of the data
+ * it will shape. Reports unknown fields and dot-paths, subfields selected on
+ * scalars, and array arguments on values that are not arrays, with their
+ * position when the query is given as text. Fields the schema leaves open
+ * (no `type`, or objects without `properties`) are not checked. A query
+ * that does not parse throws its QueryParseError.
+ */
+export function validateQuery(
+  query: string | QueryObject,
+  inputSchema: JsonSchema,
+  options: ValidateOptions = {}
+): QueryValidationError[] {
+  let queryObj: QueryObject;
+  let nodes: SelectionNode[] | undefined;
+  if (typeof query === "string") {
+    const doc = parseDocument(query, { strict: true });
+    queryObj = lowerDocument(doc);
+    nodes = doc.selections;
+  } else {
+    queryObj = query;
+  }
+
+  const document = options.document ?? inputSchema;
+  const scope: ValidationScope = {
+    input: derefSchema(inputSchema, document),
+    document,
+    fragments: { ...options.fragments, ...queryObj.__definitions },
+    spreading: new Set(),
+    autoResolve: options.autoResolve ?? "depthFirst",
+    errors: [],
+  };
+  validateObject(queryObj, scope.input, [], nodes, scope);
+  return scope.errors;
+}
@@ -0,0 +1,85 @@
+import { TypeNode, VariableDefinitionNode, VariableNode } from "./types";
+import { QueryVariableError } from "./errors";
+
+const SCALARS: Record<string, (value: any) => boolean> = {
+  String: (value) => typeof value === "string",
+  Int: (value) => Number.isInteger(value),
+  Float: (value) => typeof value === "number" && Number.isFinite(value),
+  Boolean: (value) => typeof value === "boolean",
+  ID: (value) => typeof value === "string" || Number.isInteger(value),
+  JSON: () => true,
+};
+
+/** Type names a variable can be declared with */
+export const SCALAR_TYPES = Object.keys(SCALARS);
+
+/** Print a variable type the way it is written in the query */
+export function printType(type: TypeNode): string {
+  const inner =
+    type.kind === "ListType" ? `[${printType(type.ofType)}]` : type.name;
+  return type.nonNull ? `${inner}!` : inner;
+}
+
+function matchesType(value: any, type: TypeNode): boolean {
+  if (value == null) return !type.nonNull;
+  if (type.kind === "ListType")
+    return (
+      Array.isArray(value) &&
+      value.every((item) => matchesType(item, type.ofType))
+    );
+  return SCALARS[type.name]?.(value) ?? false;
+}
+
+/** Check if an argument value is a `$name` reference */
+export function isVariableNode(value: any): value is VariableNode {
+  return (
+    typeof value === "object" && value !== null && value.kind === "Variable"
+  );
+}
+
+/** Replace a `$name` reference with its value from the variables scope */
+export function resolveArg(value: any, variables: Record<string, any>) {
+  return isVariableNode(value) ? variables["$" + value.name] : value;
+}
+
+/**
+ * Check supplied values against the query's declared variables and build the
+ * `$name` scope seen by expressions. Declared variables fall back to their
+ * default; undeclared values are ignored. A query without a header passes
+ * every supplied value through unchecked.
+ */
+export function resolveVariables(
+  definitions: VariableDefinitionNode[] | undefined,
+  supplied: Record<string, any> = {}
+): Record<string, any> {
+  const values: Record<string, any> = {};
+  for (const [name, value] of Object.entries(supplied))
+    values[name.replace(/^\$/, "")] = value;
+
+  const scope: Record<string, any> = {};
+  if (!definitions) {
+    for (const [name, value] of Object.entries(values))
+      scope["$" + name] = value;
+    return scope;
+  }
+
+  for (const def of definitions) {
+    const value =
+      values[def.name] !== undefined ? values[def.name] : def.defaultValue;
+    if (!matchesType(value, def.type)) {
+      const type = printType(def.type);
+      throw new QueryVariableError(
+        def.name,
+        value == null
+          ? `Variable "$${def.name}" of required type "${type}" was not provided`
+          : `Variable "$${
+              def.name
+            }" expected a value of type "${type}" but got ${JSON.stringify(
+              value
+            )}`
+      );
+    }
+    scope["$" + def.name] = value ?? null;
+  }
+  return scope;
+}
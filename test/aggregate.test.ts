@@ -0,0 +1,104 @@
+import { describe, it, expect } from "vitest";
+import { shape, generateTypes } from "../src/index";
+
+describe("aggregation and grouping", () => {
+  const data = {
+    orders: [
+      { id: 1, status: "paid", total: 30, customer: { city: "Oslo" } },
+      { id: 2, status: "pending", total: 12.5, customer: { city: "Paris" } },
+      { id: 3, status: "paid", total: 7.5, customer: { city: "Oslo" } },
+      { id: 4, status: "refunded", total: null, customer: { city: "Rome" } },
+    ],
+  };
+
+  // ======================================================
+  // 🟩 AGGREGATE
+  // ======================================================
+  it("should summarize arrays with @aggregate", () => {
+    const query = `
+      stats: orders @aggregate(
+        count: true,
+        sum: "total",
+        avg: "total",
+        min: "total",
+        max: "total",
+        distinct: "customer.city"
+      )
+    `;
+    expect(shape(data, query).stats).toEqual({
+      count: 4,
+      sum: 50,
+      avg: 50 / 3,
+      min: 7.5,
+      max: 30,
+      distinct: ["Oslo", "Paris", "Rome"],
+    });
+  });
+
+  it("should aggregate several fields and respect filter and limit", () => {
+    const query = `
+      paid: orders(filter: "status === 'paid'", limit: 1) @aggregate(
+        sum: ["total", "id"],
+        count: "total"
+      )
+    `;
+    expect(shape(data, query).paid).toEqual({
+      count: 1,
+      sum: { total: 30, id: 1 },
+    });
+  });
+
+  // ======================================================
+  // 🟦 GROUP BY
+  // ======================================================
+  it("should group items by key and shape each group", () => {
+    const query = `orders(groupBy: "status") { id }`;
+    expect(shape(data, query).orders).toEqual({
+      paid: [{ id: 1 }, { id: 3 }],
+      pending: [{ id: 2 }],
+      refunded: [{ id: 4 }],
+    });
+  });
+
+  it("should list groups as { key, items } entries", () => {
+    const query = `
+      byCity: orders(groupBy: "customer.city", groupAs: "array") { id }
+    `;
+    expect(shape(data, query).byCity).toEqual([
+      { key: "Oslo", items: [{ id: 1 }, { id: 3 }] },
+      { key: "Paris", items: [{ id: 2 }] },
+      { key: "Rome", items: [{ id: 4 }] },
+    ]);
+  });
+
+  it("should aggregate each group", () => {
+    const query = `
+      query ($by: String = "status") {
+        totals: orders(groupBy: $by, groupAs: "array") @aggregate(
+          count: true,
+          sum: "total"
+        )
+      }
+    `;
+    expect(shape(data, query).totals).toEqual([
+      { key: "paid", count: 2, sum: 37.5 },
+      { key: "pending", count: 1, sum: 12.5 },
+      { key: "refunded", count: 1, sum: 0 },
+    ]);
+  });
+
+  it("should describe aggregates and groups in generated types", () => {
+    const types = generateTypes(
+      `
+        stats: orders @aggregate(count: true, max: "total")
+        byStatus: orders(groupBy: "status") { id }
+      `,
+      { sample: data }
+    );
+    expect(types).toContain("count: number;");
+    expect(types).toContain("max: number | null;");
+    expect(types).toContain(
+      "byStatus: Record<string, {\n    id: number;\n  }[]>;"
+    );
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect } from "vitest";
+import { shapeAsync, registerDirective } from "../src/index";
+
+const delay = <T>(value: T, ms = 5) =>
+  new Promise<T>((resolve) => setTimeout(() => resolve(value), ms));
+
+describe("shapeAsync", () => {
+  const users: Record<number, { name: string; city: string }> = {
+    1: { name: "Ada", city: "London" },
+    2: { name: "Linus", city: "Helsinki" },
+  };
+  const data = {
+    orders: [
+      { id: 10, userId: 1, total: 30 },
+      { id: 11, userId: 2, total: 5 },
+      { id: 12, userId: 1, total: 12 },
+    ],
+  };
+
+  registerDirective("slowUpper", {
+    phase: "after",
+    apply: (value) => delay(String(value).toUpperCase()),
+  });
+
+  // ======================================================
+  // 🟩 RESOLVERS
+  // ======================================================
+  it("should await resolvers, promise fields and promised data", async () => {
+    const query = {
+      orders: {
+        filter: "total > 10",
+        nested: {
+          id: "id",
+          user: (order: any) => delay(users[order.userId]),
+        },
+      },
+      count: () => delay(data.orders.length),
+    };
+    expect(await shapeAsync(delay(data), query)).toEqual({
+      orders: [
+        { id: 10, user: { name: "Ada", city: "London" } },
+        { id: 12, user: { name: "Ada", city: "London" } },
+      ],
+      count: 3,
+    });
+
+    const lazy = { profile: delay({ name: "Ada", tags: delay(["a", "b"]) }) };
+    expect(await shapeAsync(lazy, `profile { name tags(limit: 1) }`)).toEqual({
+      profile: { name: "Ada", tags: ["a"] },
+    });
+  });
+
+  it("should keep field order when later fields resolve first", async () => {
+    const query = {
+      slow: () => delay("slow", 20),
+      fast: () => "fast",
+      medium: () => delay("medium", 10),
+    };
+    const result = await shapeAsync({}, query);
+    expect(Object.keys(result)).toEqual(["slow", "fast", "medium"]);
+  });
+
+  it("should apply directives to awaited values", async () => {
+    const query = `
+      orders(orderBy: "total desc", limit: 2) {
+        id @slowUpper
+        missing @default(value: "n/a")
+        hidden @skip(if: "total > 20")
+      }
+    `;
+    expect(await shapeAsync(data, query)).toEqual({
+      orders: [
+        { id: "10", missing: "n/a", hidden: null },
+        { id: "12", missing: "n/a", hidden: null },
+      ],
+    });
+  });
+
+  // ======================================================
+  // 🟦 CONCURRENCY
+  // ======================================================
+  it("should run resolvers concurrently up to the limit", async () => {
+    let active = 0;
+    let peak = 0;
+    const lookup = async (order: any) => {
+      peak = Math.max(peak, ++active);
+      await delay(null);
+      active--;
+      return users[order.userId].name;
+    };
+    const query = { orders: { nested: { name: lookup } } };
+
+    await shapeAsync(data, query);
+    expect(peak).toBe(3);
+
+    peak = 0;
+    const result = await shapeAsync(data, query, { concurrency: 2 });
+    expect(peak).toBe(2);
+    expect(result.orders.map((order: any) => order.name)).toEqual([
+      "Ada",
+      "Linus",
+      "Ada",
+    ]);
+  });
+
+  it("should reject with the first resolver error", async () => {
+    const query = {
+      ok: () => delay(1),
+      broken: () => Promise.reject(new Error("lookup failed")),
+    };
+    await expect(shapeAsync({}, query)).rejects.toThrow("lookup failed");
+  });
+
+  it("should handle a field rejecting while a fragment is pending", async () => {
+    const query = {
+      __fragments: ["slow"],
+      broken: () => Promise.reject(new Error("boom")),
+    };
+    const fragments = { slow: { late: () => delay(1, 20) } };
+    await expect(shapeAsync({}, query, { fragments })).rejects.toThrow("boom");
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect } from "vitest";
+import { execFileSync } from "child_process";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { CliIO, main } from "../src/cli";
+
+/** In-memory files and captured output */
+function fakeIO(files: Record<string, string>, stdin?: string) {
+  const out = { stdout: "", stderr: "" };
+  const io: CliIO = {
+    readFile: (path) => {
+      if (!(path in files)) throw new Error(`ENOENT: ${path}`);
+      return files[path];
+    },
+    writeFile: (path, content) => (files[path] = content),
+    stdout: (text) => (out.stdout += text),
+    stderr: (text) => (out.stderr += text),
+    ...(stdin !== undefined && { readStdin: () => stdin }),
+  };
+  return { io, out };
+}
+
+describe("CLI shape", () => {
+  const user = {
+    user: { id: 1, name: "Ada", email: "ada@example.com", admin: true },
+  };
+  const files = {
+    "user.json": JSON.stringify(user),
+    "card.shape": "user { ...card }",
+    "fragments.json": JSON.stringify({ card: "name mail: email" }),
+    "vars.json": JSON.stringify({ suffix: "!" }),
+  };
+
+  // ======================================================
+  // 🟩 SHAPING
+  // ======================================================
+  it("should shape a file with an inline query", () => {
+    const { io, out } = fakeIO({ ...files });
+    expect(main(["shape", "user { name }", "user.json"], io)).toBe(0);
+    expect(out.stdout).toBe('{"user":{"name":"Ada"}}\n');
+  });
+
+  it("should read stdin and a .shape file with fragments", () => {
+    const { io, out } = fakeIO({ ...files }, JSON.stringify(user));
+    const code = main(
+      ["shape", "card.shape", "--fragments", "fragments.json", "--pretty"],
+      io
+    );
+    expect(code).toBe(0);
+    expect(out.stdout).toBe(
+      JSON.stringify(
+        { user: { name: "Ada", mail: "ada@example.com" } },
+        null,
+        2
+      ) + "\n"
+    );
+  });
+
+  it("should read fragment definitions from a .shape file", () => {
+    const { io, out } = fakeIO({
+      ...files,
+      "card.fragments.shape": "fragment card on User { name }",
+    });
+    const args = ["card.shape", "user.json"];
+    expect(
+      main(["shape", ...args, "--fragments", "card.fragments.shape"], io)
+    ).toBe(0);
+    expect(out.stdout).toBe('{"user":{"name":"Ada"}}\n');
+  });
+
+  it("should pass variables inline or from a file", () => {
+    const query = "label: user.name + $suffix";
+    const inline = fakeIO({ ...files });
+    main(["shape", query, "user.json", "--vars", '{"suffix": "?"}'], inline.io);
+    expect(inline.out.stdout).toBe('{"label":"Ada?"}\n');
+
+    const fromFile = fakeIO({ ...files });
+    main(["shape", query, "user.json", "--vars", "@vars.json"], fromFile.io);
+    expect(fromFile.out.stdout).toBe('{"label":"Ada!"}\n');
+  });
+
+  it("should shape NDJSON line by line", () => {
+    const stdin = '{"id": 1, "name": "Ada"}\n\n{"id": 2, "name": "Bob"}\n';
+    const { io, out } = fakeIO({}, stdin);
+    expect(main(["shape", "name", "-", "--ndjson"], io)).toBe(0);
+    expect(out.stdout).toBe('{"name":"Ada"}\n{"name":"Bob"}\n');
+  });
+
+  // ======================================================
+  // 🟥 ERRORS
+  // ======================================================
+  it("should check a query without reading input", () => {
+    const { io, out } = fakeIO({});
+    expect(main(["shape", "user { name }", "--check"], io)).toBe(0);
+    expect(out.stdout).toBe("");
+  });
+
+  it("should exit with 2 and the location when the query does not parse", () => {
+    const { io, out } = fakeIO({ "bad.shape": "user {\n  name(\n}" });
+    expect(main(["shape", "bad.shape", "--check"], io)).toBe(2);
+    expect(out.stderr).toMatch(
+      /^rest-shape: bad\.shape: .* at line 3, column 1\n/
+    );
+    expect(out.stderr).toContain("}\n^\n");
+  });
+
+  it("should report fragments that do not parse", () => {
+    const { io, out } = fakeIO({
+      "f.json": JSON.stringify({ card: "name {" }),
+    });
+    expect(
+      main(["shape", "user { ...card }", "--fragments", "f.json"], io)
+    ).toBe(2);
+    expect(out.stderr).toContain('f.json (fragment "card")');
+  });
+
+  it("should exit with 1 on invalid input", () => {
+    const { io, out } = fakeIO({}, '{"id": 1}\n{oops}\n');
+    expect(main(["shape", "id", "--ndjson"], io)).toBe(1);
+    expect(out.stdout).toBe('{"id":1}\n');
+    expect(out.stderr).toContain("Invalid JSON in stdin line 2");
+
+    const missing = fakeIO({});
+    expect(main(["shape", "id", "missing.json"], missing.io)).toBe(1);
+    expect(main(["shape"], missing.io)).toBe(1);
+    expect(missing.out.stderr).toContain("Provide a query");
+  });
+});
+
+describe("built bin", () => {
+  it("should run the bundled rest-shape command with node", () => {
+    const dir = mkdtempSync(join(tmpdir(), "rest-shape-bin-"));
+    try {
+      // Same bundle as `npm run build`, written outside dist/
+      execFileSync("npx", ["--no-install", "tsup", "--out-dir", dir], {
+        stdio: "pipe",
+      });
+      const bin = join(dir, "bin.js");
+      const run = (args: string[], input?: string) =>
+        execFileSync(process.execPath, [bin, ...args], {
+          input,
+          encoding: "utf8",
+        });
+      expect(run(["help"])).toContain("Usage: rest-shape");
+      expect(run(["shape", "a { b }"], '{"a": {"b": 1, "c": 2}}')).toBe(
+        '{"a":{"b":1}}\n'
+      );
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  }, 60000);
+});
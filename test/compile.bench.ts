@@ -0,0 +1,73 @@
+import { bench, describe } from "vitest";
+import {
+  compile,
+  compileExpression,
+  compileField,
+  parseExpression,
+  parseQuery,
+  shape,
+} from "../src/index";
+import { evaluate } from "../src/expression";
+
+const data = {
+  orders: Array.from({ length: 10000 }, (_, i) => ({
+    id: i,
+    customer: { name: `Customer ${i}`, email: `c${i}@example.com` },
+    status: i % 3 ? "paid" : "pending",
+    total: i * 1.5,
+  })),
+};
+
+const expr = `customer.name + " (" + status + ")"`;
+
+describe("unsafe expression over 10k orders", () => {
+  const compiled = compileField(expr);
+
+  bench("new Function per item", () => {
+    data.orders.forEach((order) =>
+      Function(
+        "data",
+        "root",
+        `with(data){ with(root){ return ${expr}; } }`
+      )(order, data)
+    );
+  });
+
+  bench("compiled once", () => {
+    data.orders.forEach((order) => compiled(order, data));
+  });
+});
+
+describe("safe expression over 10k orders", () => {
+  const compiled = compileExpression(expr);
+
+  bench("parse per item", () => {
+    data.orders.forEach((order) => evaluate(parseExpression(expr), [order]));
+  });
+
+  bench("compiled once", () => {
+    data.orders.forEach((order) => compiled([order]));
+  });
+});
+
+describe("query over 10k orders", () => {
+  const query = `orders(filter: "status === 'paid'", orderBy: "total desc") {
+    id
+    label: customer.name + " (" + status + ")"
+    email: customer.email
+    total
+  }`;
+  const shaper = compile(query);
+
+  bench("shape, parsing the query every call", () => {
+    shape(data, parseQuery(query));
+  });
+
+  bench("shape", () => {
+    shape(data, query);
+  });
+
+  bench("compile once, then call", () => {
+    shaper(data);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect, vi } from "vitest";
+import { compile, shape, QueryParseError } from "../src/index";
+
+describe("compile", () => {
+  const posts = Array.from({ length: 50 }, (_, i) => ({
+    id: i,
+    title: `Post ${i}`,
+    status: i % 2 ? "draft" : "published",
+    likes: i * 10,
+  }));
+  const query = `
+    posts(filter: "status === 'published'", limit: 3) {
+      id
+      label: title.toUpperCase()
+      isPopular: likes > 100
+    }
+  `;
+
+  it("should return a reusable shaper matching shape", () => {
+    const shaper = compile(query);
+    const expected = shape({ posts }, query);
+    expect(shaper({ posts })).toEqual(expected);
+    expect(shaper({ posts: posts.slice(10) })).toEqual(
+      shape({ posts: posts.slice(10) }, query)
+    );
+    expect(expected.posts).toEqual([
+      { id: 0, label: "POST 0", isPopular: false },
+      { id: 2, label: "POST 2", isPopular: false },
+      { id: 4, label: "POST 4", isPopular: false },
+    ]);
+  });
+
+  it("should honor options such as mode and fragments", () => {
+    const shaper = compile(`posts(limit: 1) { ...postFields }`, {
+      mode: "safe",
+      fragments: { postFields: { shout: "title.toUpperCase() + '!'" } },
+    });
+    expect(shaper({ posts })).toEqual({ posts: [{ shout: "POST 0!" }] });
+  });
+
+  it("should keep its evaluators when other queries fill the caches", () => {
+    const shaper = compile(
+      `n: count + 1 shout: name @transform(fn: "value + '!'")`
+    );
+    // Evict every shared cache entry the shaper could have relied on
+    for (let i = 0; i < 1100; i++)
+      shape({}, `x: ${i} + 1 y @transform(fn: "value * ${i}")`);
+    const compileSpy = vi.spyOn(globalThis, "Function");
+    try {
+      expect(shaper({ count: 1, name: "Ada" })).toEqual({
+        n: 2,
+        shout: "Ada!",
+      });
+      expect(compileSpy).not.toHaveBeenCalled();
+    } finally {
+      compileSpy.mockRestore();
+    }
+  });
+
+  it("should replay cached parse errors", () => {
+    const broken = `posts(limit: ) { id }`;
+    const first: QueryParseError[] = [];
+    const second: QueryParseError[] = [];
+    compile(broken, { diagnostics: first });
+    compile(broken, { diagnostics: second });
+    expect(second).toEqual(first);
+    expect(first).toHaveLength(1);
+    expect(() => compile(broken, { strict: true })).toThrow(QueryParseError);
+  });
+});
@@ -0,0 +1,178 @@
+import { describe, it, expect } from "vitest";
+import { JsonPatchOperation, shape, shapeDiff } from "../src/index";
+
+/** Minimal RFC 6902 applier covering the operations `shapeDiff` emits */
+function applyPatch(doc: any, operations: JsonPatchOperation[]) {
+  const result = JSON.parse(JSON.stringify(doc));
+  const locate = (pointer: string) => {
+    const keys = pointer
+      .split("/")
+      .slice(1)
+      .map((key) => key.replace(/~1/g, "/").replace(/~0/g, "~"));
+    const last = keys.pop()!;
+    const parent = keys.reduce((node, key) => node[key], result);
+    return { parent, last };
+  };
+  const remove = (pointer: string) => {
+    const { parent, last } = locate(pointer);
+    const value = parent[last];
+    if (Array.isArray(parent)) parent.splice(Number(last), 1);
+    else delete parent[last];
+    return value;
+  };
+  const add = (pointer: string, value: any) => {
+    const { parent, last } = locate(pointer);
+    if (Array.isArray(parent)) parent.splice(Number(last), 0, value);
+    else parent[last] = value;
+  };
+  for (const operation of operations) {
+    if (operation.op === "remove") remove(operation.path);
+    else if (operation.op === "move")
+      add(operation.path, remove(operation.from));
+    else if (operation.op === "add") add(operation.path, operation.value);
+    else {
+      const { parent, last } = locate(operation.path);
+      parent[last] = operation.value;
+    }
+  }
+  return result;
+}
+
+describe("shapeDiff", () => {
+  const before = {
+    order: { id: 1, status: "open", internal: "a" },
+    items: [
+      { id: "a", name: "Pen", qty: 1 },
+      { id: "b", name: "Ink", qty: 2 },
+      { id: "c", name: "Pad", qty: 1 },
+    ],
+  };
+
+  // ======================================================
+  // 🟩 OBJECTS
+  // ======================================================
+  it("should diff the shaped output only", () => {
+    const after = {
+      ...before,
+      order: { id: 1, status: "paid", internal: "b" },
+    };
+    expect(shapeDiff(before, after, "order { id status }")).toEqual([
+      { op: "replace", path: "/order/status", value: "paid" },
+    ]);
+  });
+
+  it("should return no operations for equal shaped output", () => {
+    const after = { ...before, order: { ...before.order, internal: "z" } };
+    expect(shapeDiff(before, after, "order { status }")).toEqual([]);
+  });
+
+  it("should replace values that change type", () => {
+    expect(shapeDiff({}, before, "order { id }")).toEqual([
+      { op: "replace", path: "/order", value: { id: 1 } },
+    ]);
+  });
+
+  it("should add and remove keys of grouped objects", () => {
+    const after = {
+      items: [
+        { id: "a", qty: 1 },
+        { id: "e", qty: 3 },
+      ],
+    };
+    expect(shapeDiff(before, after, 'items(groupBy: "qty") { id }')).toEqual([
+      { op: "remove", path: "/items/2" },
+      { op: "remove", path: "/items/1/1" },
+      { op: "add", path: "/items/3", value: [{ id: "e" }] },
+    ]);
+  });
+
+  it("should escape keys in JSON Pointer paths", () => {
+    const query = { meta: { "a/b~c": "ratio" } };
+    expect(
+      shapeDiff({ meta: { ratio: 1 } }, { meta: { ratio: 2 } }, query)
+    ).toEqual([{ op: "replace", path: "/meta/a~1b~0c", value: 2 }]);
+  });
+
+  // ======================================================
+  // 🟩 ARRAYS
+  // ======================================================
+  it("should match items by index without a key", () => {
+    const after = { items: [before.items[1], before.items[2]] };
+    expect(shapeDiff(before, after, "items { id qty }")).toEqual([
+      { op: "replace", path: "/items/0/id", value: "b" },
+      { op: "replace", path: "/items/0/qty", value: 2 },
+      { op: "replace", path: "/items/1/id", value: "c" },
+      { op: "replace", path: "/items/1/qty", value: 1 },
+      { op: "remove", path: "/items/2" },
+    ]);
+  });
+
+  it("should match items by the key argument", () => {
+    const after = {
+      items: [
+        { id: "c", name: "Pad", qty: 3 },
+        { id: "a", name: "Pen", qty: 1 },
+        { id: "d", name: "Nib", qty: 5 },
+      ],
+    };
+    expect(
+      shapeDiff(before, after, 'items(key: "id") { id name qty }')
+    ).toEqual([
+      { op: "remove", path: "/items/1" },
+      { op: "move", from: "/items/1", path: "/items/0" },
+      { op: "replace", path: "/items/0/qty", value: 3 },
+      { op: "add", path: "/items/2", value: { id: "d", name: "Nib", qty: 5 } },
+    ]);
+  });
+
+  it("should produce a patch that turns one shaped snapshot into the other", () => {
+    const query = 'items(key: "id", orderBy: "qty desc") { id qty }';
+    const after = {
+      items: [
+        { id: "b", qty: 0 },
+        { id: "e", qty: 4 },
+        { id: "c", qty: 9 },
+        { id: "a", qty: 1 },
+      ],
+    };
+    const patch = shapeDiff(before, after, query);
+    expect(applyPatch(shape(before, query), patch)).toEqual(
+      shape(after, query)
+    );
+  });
+
+  it("should match items by a nested key path", () => {
+    const query = 'lines(key: "product.sku") { product { sku } qty }';
+    const line = (sku: string, qty: number) => ({ product: { sku }, qty });
+    const patch = shapeDiff(
+      { lines: [line("x", 1), line("y", 1)] },
+      { lines: [line("y", 2), line("x", 1)] },
+      query
+    );
+    expect(patch).toEqual([
+      { op: "move", from: "/lines/1", path: "/lines/0" },
+      { op: "replace", path: "/lines/0/qty", value: 2 },
+    ]);
+  });
+
+  it("should fall back to index matching when keys are missing or repeated", () => {
+    const query = 'items(key: "id") { name }';
+    expect(shapeDiff(before, { items: [before.items[1]] }, query)).toEqual([
+      { op: "replace", path: "/items/0/name", value: "Ink" },
+      { op: "remove", path: "/items/2" },
+      { op: "remove", path: "/items/1" },
+    ]);
+  });
+
+  it("should find keys of fields selected in fragments", () => {
+    const fragments = {
+      lines: { items: { key: "id", nested: { id: "id", qty: "qty" } } },
+    };
+    const after = { items: [before.items[2], before.items[0]] };
+    const patch = shapeDiff(before, after, "...lines", { fragments });
+    expect(patch).toEqual([
+      { op: "remove", path: "/items/1" },
+      { op: "move", from: "/items/1", path: "/items/0" },
+    ]);
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect } from "vitest";
+import {
+  shape,
+  parseQuery,
+  registerDirective,
+  QueryParseError,
+} from "../src/index";
+
+describe("directive registry", () => {
+  const data = {
+    user: { name: "John", card: "4111111111111111", role: "admin" },
+    orders: [
+      { id: 3, total: 12.5 },
+      { id: 1, total: 99 },
+      { id: 2, total: 7.25 },
+    ],
+  };
+
+  registerDirective("mask", {
+    args: ["keep"],
+    phase: "after",
+    apply: (value, args) =>
+      typeof value === "string"
+        ? "*".repeat(value.length - (args.keep ?? 0)) +
+          value.slice(value.length - (args.keep ?? 0))
+        : value,
+  });
+  registerDirective("currency", {
+    args: ["code"],
+    phase: "after",
+    apply: (value, args) => `${args.code} ${Number(value).toFixed(2)}`,
+  });
+  registerDirective("sortBy", {
+    args: ["key"],
+    phase: "array",
+    apply: (items, args) =>
+      [...items].sort((a, b) => a[args.key] - b[args.key]),
+  });
+  registerDirective("adminOnly", {
+    phase: "before",
+    apply: (_, __, ctx) =>
+      ctx.evaluate("role === 'admin'") ? undefined : null,
+  });
+
+  // ======================================================
+  // 🟩 PHASES
+  // ======================================================
+  it("should apply custom directives after resolution", () => {
+    const query = `
+      user {
+        name
+        card @mask(keep: 4)
+      }
+      orders { total @currency(code: "EUR") }
+    `;
+    expect(shape(data, query)).toEqual({
+      user: { name: "John", card: "************1111" },
+      orders: [
+        { total: "EUR 12.50" },
+        { total: "EUR 99.00" },
+        { total: "EUR 7.25" },
+      ],
+    });
+  });
+
+  it("should run array directives before skip and limit", () => {
+    const query = `orders(limit: 2) @sortBy(key: "id") { id }`;
+    expect(shape(data, query).orders).toEqual([{ id: 1 }, { id: 2 }]);
+  });
+
+  it("should let before directives replace the field", () => {
+    const query = `user { card @adminOnly name @adminOnly }`;
+    expect(shape(data, query).user).toEqual({
+      card: "4111111111111111",
+      name: "John",
+    });
+    const guest = { user: { ...data.user, role: "guest" } };
+    expect(shape(guest, query).user).toEqual({ card: null, name: null });
+  });
+
+  it("should resolve variables in directive arguments", () => {
+    const query = `
+      query ($code: String = "USD") {
+        orders(limit: 1) { total @currency(code: $code) }
+      }
+    `;
+    expect(shape(data, query).orders).toEqual([{ total: "USD 12.50" }]);
+    expect(shape(data, query, { variables: { code: "JPY" } }).orders).toEqual([
+      { total: "JPY 12.50" },
+    ]);
+  });
+
+  it("should lower custom directives next to the built-in keys", () => {
+    expect(parseQuery(`card @mask(keep: 4) @skip(if: "x")`)).toEqual({
+      card: { skipIf: "x", directives: [{ name: "mask", args: { keep: 4 } }] },
+    });
+  });
+
+  // ======================================================
+  // 🟥 ERRORS
+  // ======================================================
+  it("should report unknown directives and arguments", () => {
+    const diagnostics: QueryParseError[] = [];
+    const result = shape(data, `user { name @shout card @mask(digits: 4) }`, {
+      diagnostics,
+    });
+    expect(result.user.name).toBe("John");
+    expect(diagnostics.map((d) => d.message)).toEqual([
+      'Expected a registered directive but found "@shout" at line 1, column 13',
+      'Expected "keep" as argument of @mask but found "digits" at line 1, column 25',
+    ]);
+    expect(() =>
+      parseQuery(`name @shout`, undefined, { strict: true })
+    ).toThrow(QueryParseError);
+  });
+
+  it("should accept a directive once it is registered", () => {
+    const query = `name @later`;
+    expect(() => shape(data.user, query, { strict: true })).toThrow(/@later/);
+    registerDirective("later", {
+      phase: "after",
+      apply: (value) => value + "!",
+    });
+    expect(shape(data.user, query, { strict: true })).toEqual({
+      name: "John!",
+    });
+  });
+});
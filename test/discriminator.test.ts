@@ -0,0 +1,125 @@
+import { describe, it, expect } from "vitest";
+import { compile, resultSchema, shape, shapeAsync } from "../src/index";
+
+describe("discriminated selections", () => {
+  const feed = {
+    items: [
+      { id: 1, type: "video", duration: 90, wordCount: 0 },
+      { id: 2, type: "article", wordCount: 1200, duration: 0 },
+      { id: 3, type: "podcast", episode: 7 },
+      { id: 4 },
+    ],
+  };
+
+  // ======================================================
+  // 🟩 BRANCHES
+  // ======================================================
+  it("should pick the branch matching the discriminator of each item", () => {
+    const query = `items(discriminator: "type") {
+      id
+      ...on video { duration }
+      ...on article { wordCount }
+    }`;
+    expect(shape(feed, query).items).toEqual([
+      { __typename: "video", id: 1, duration: 90 },
+      { __typename: "article", id: 2, wordCount: 1200 },
+      { id: 3 },
+      { id: 4 },
+    ]);
+    expect(compile(query)(feed)).toEqual(shape(feed, query));
+  });
+
+  it("should fall back to the default branch", () => {
+    const query = `items(discriminator: "type") {
+      id
+      ... on video { duration }
+      ... on default { label: "#" + id }
+    }`;
+    expect(shape(feed, query).items.slice(1)).toEqual([
+      { __typename: "default", id: 2, label: "#2" },
+      { __typename: "default", id: 3, label: "#3" },
+      { __typename: "default", id: 4, label: "#4" },
+    ]);
+  });
+
+  it("should read the discriminator at a path and match named fragments", () => {
+    const data = {
+      hero: { meta: { kind: "video" }, duration: 30, title: "Intro" },
+    };
+    const query = `
+      hero(discriminator: "meta.kind") { ...video ...article title }
+      fragment video on video { duration }
+      fragment article on article { wordCount }
+    `;
+    expect(shape(data, query)).toEqual({
+      hero: { __typename: "video", duration: 30, title: "Intro" },
+    });
+  });
+
+  it("should pick branches when shaping async", async () => {
+    const data = { events: [{ code: 404 }, { code: "E1", trace: "..." }] };
+    const query = `events(discriminator: "code") {
+      code
+      ... on E1 { trace }
+      ... on default { retry: code >= 500 }
+    }`;
+    expect((await shapeAsync(data, query)).events).toEqual([
+      { __typename: "default", code: 404, retry: false },
+      { __typename: "E1", code: "E1", trace: "..." },
+    ]);
+  });
+
+  it("should keep untyped fragments and @include branches", () => {
+    const query = `query ($full: Boolean = false) {
+      items(discriminator: "type", limit: 2) {
+        ... { id }
+        ... on video @include(if: $full) { duration }
+      }
+    }`;
+    expect(shape(feed, query).items).toEqual([
+      { __typename: "video", id: 1 },
+      { id: 2 },
+    ]);
+    expect(shape(feed, query, { variables: { full: true } }).items[0]).toEqual({
+      __typename: "video",
+      id: 1,
+      duration: 90,
+    });
+  });
+
+  // ======================================================
+  // 🟨 TOOLING
+  // ======================================================
+  it("should type __typename as the branch names", () => {
+    const schema = resultSchema(
+      `items(discriminator: "type") {
+        id
+        ... on video { duration }
+        ... on default { type }
+      }`,
+      {
+        type: "object",
+        properties: {
+          items: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                id: { type: "integer" },
+                type: { type: "string" },
+                duration: { type: "number" },
+              },
+              required: ["id", "type", "duration"],
+            },
+          },
+        },
+      }
+    );
+    const items = schema.properties!.items.items!;
+    expect(items.properties!.__typename).toEqual({
+      type: "string",
+      enum: ["video", "default"],
+    });
+    expect(items.required).toEqual(["__typename", "id"]);
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, it, expect } from "vitest";
+import { shape } from "../src/index";
+import { evaluateExpression, parseExpression } from "../src/expression";
+
+describe("sandboxed expression engine", () => {
+  const scope = {
+    user: {
+      name: "John",
+      lastName: "Doe",
+      email: "john@example.com",
+      tags: ["a", "b", "c"],
+      department: { manager: { email: "alex@example.com" } },
+    },
+    likes: 120,
+  };
+  const run = (expr: string) => evaluateExpression(expr, [scope]);
+
+  // ======================================================
+  // 🟩 LANGUAGE
+  // ======================================================
+  it("should evaluate literals and arithmetic", () => {
+    expect(run("1 + 2 * 3")).toBe(7);
+    expect(run("2 ** 3 ** 2")).toBe(512);
+    expect(run("(1 + 2) * 3 % 4")).toBe(1);
+    expect(run("'a' + \"b\"")).toBe("ab");
+    expect(run("-likes + +'5'")).toBe(-115);
+  });
+
+  it("should evaluate comparison, logical and ternary operators", () => {
+    expect(run("likes > 100 && user.name === 'John'")).toBe(true);
+    expect(run("user.phone || 'N/A'")).toBe("N/A");
+    expect(run("user.phone ?? user.email")).toBe("john@example.com");
+    expect(run("likes >= 200 ? 'hot' : likes > 100 ? 'warm' : 'cold'")).toBe(
+      "warm"
+    );
+    expect(run("!user.isGuest")).toBe(true);
+    expect(run("typeof user.name")).toBe("string");
+  });
+
+  it("should support member access and optional chaining", () => {
+    expect(run("user.department.manager.email")).toBe("alex@example.com");
+    expect(run("user['lastName']")).toBe("Doe");
+    expect(run("user.tags[1]")).toBe("b");
+    expect(run("user.missing?.deep.value")).toBeUndefined();
+    expect(() => run("user.missing.deep")).toThrow(TypeError);
+  });
+
+  it("should call whitelisted methods and arrow functions", () => {
+    expect(run("user.email.split('@')[1]")).toBe("example.com");
+    expect(run("user.name.toUpperCase()")).toBe("JOHN");
+    expect(run("user.tags.map(t => t.toUpperCase()).join('-')")).toBe("A-B-C");
+    expect(run("user.tags.reduce((acc, t) => acc + t, '')")).toBe("abc");
+    expect(run("Math.max(likes, 500)")).toBe(500);
+  });
+
+  it("should build array and object literals", () => {
+    expect(run("[likes, user.name]")).toEqual([120, "John"]);
+    expect(run("{ n: user.name, likes }")).toEqual({ n: "John", likes: 120 });
+  });
+
+  it("should report syntax errors with a position", () => {
+    expect(() => parseExpression("a +")).toThrow(/line 1, column 4/);
+    expect(() => parseExpression("a b")).toThrow(SyntaxError);
+  });
+
+  // ======================================================
+  // 🟥 SANDBOX
+  // ======================================================
+  it("should not reach constructors, prototypes or globals", () => {
+    expect(run("user.constructor")).toBeUndefined();
+    expect(run("user.__proto__")).toBeUndefined();
+    expect(run("process")).toBeUndefined();
+    expect(run("globalThis")).toBeUndefined();
+    expect(() => run("user.name.constructor('return process')()")).toThrow(
+      TypeError
+    );
+    expect(() => run("user.tags.map.call(user.tags, x => x)")).toThrow(
+      TypeError
+    );
+    expect(() => run("user.tags.push('d')")).toThrow(TypeError);
+    expect(scope.user.tags).toEqual(["a", "b", "c"]);
+  });
+
+  it("should bound the work an expression may do", () => {
+    expect(() => run("'a'.repeat(2 ** 28)")).toThrow(RangeError);
+    expect(() => run("user.name.padEnd(2 ** 30)")).toThrow(RangeError);
+    expect(() =>
+      run(
+        "[user.name.repeat(2 ** 20)].map(s => [s, s, s, s, s, s, s, s, s, s, s]).flat().join('')"
+      )
+    ).toThrow(RangeError);
+    expect(() =>
+      run("user.tags.reduce(s => s + s + s + s + s + s, 'x'.repeat(2 ** 20))")
+    ).toThrow(RangeError);
+    expect(() =>
+      run(
+        "'x'.repeat(2000).split('').map(a => 'x'.repeat(1000).split('').map(b => a + b))"
+      )
+    ).toThrow(/evaluation budget/);
+    expect(run("user.name.padStart(6, '*')")).toBe("**John");
+  });
+
+  it("should not set prototypes through object literals", () => {
+    const result = run("{ __proto__: { polluted: true } }");
+    expect(result.polluted).toBeUndefined();
+  });
+});
+
+describe("shape in safe mode", () => {
+  const data = {
+    user: { name: "John", lastName: "Doe", isGuest: false },
+    posts: [
+      { title: "Post 1", status: "published", likes: 120 },
+      { title: "Post 2", status: "draft", likes: 30 },
+    ],
+  };
+
+  it("should evaluate computed fields, filters and directives", () => {
+    const query = `
+      fullName: user.name + " " + user.lastName
+      user {
+        status: isGuest ? "Guest" : "Member"
+        name @skip(if: "user.isGuest")
+        upper: name @transform(fn: "value.toUpperCase()")
+      }
+      posts(filter: "status === 'published'") {
+        title
+        isPopular: likes > 100
+      }
+    `;
+    const result = shape(data, query, { mode: "safe" });
+    expect(result).toEqual({
+      fullName: "John Doe",
+      user: { status: "Member", name: "John", upper: "JOHN" },
+      posts: [{ title: "Post 1", isPopular: true }],
+    });
+  });
+
+  it("should return null instead of escaping the sandbox", () => {
+    const query = `
+      leak: user.constructor.constructor("return process")()
+      env: process.env
+    `;
+    const result = shape(data, query, { mode: "safe" });
+    expect(result).toEqual({ leak: null, env: null });
+  });
+
+  it("should accept fragments and rootData through options", () => {
+    const helpers = { shout: (s: string) => s.toUpperCase() + "!" };
+    const result = shape(data, `loud: shout(user.name)`, {
+      mode: "safe",
+      rootData: { ...data, ...helpers },
+      fragments: {},
+    });
+    expect(result.loud).toBe("JOHN!");
+  });
+});
@@ -0,0 +1,216 @@
+import { describe, it, expect } from "vitest";
+import {
+  QueryFragmentError,
+  QueryParseError,
+  compile,
+  parseDocument,
+  parseQuery,
+  resultSchema,
+  shape,
+  validateQuery,
+} from "../src/index";
+
+describe("fragments in query text", () => {
+  const data = {
+    team: {
+      manager: { name: "Alex", email: "alex@example.com", level: 3 },
+      members: [
+        { __typename: "Admin", name: "Ada", permissions: ["all"] },
+        { __typename: "User", name: "Bob", plan: "free" },
+        { name: "Cy", plan: "pro", permissions: [] },
+      ],
+    },
+  };
+
+  // ======================================================
+  // 🟩 DEFINITIONS
+  // ======================================================
+  it("should parse fragment definitions into the document", () => {
+    const doc = parseDocument(`
+      team { manager { ...managerFields } }
+      fragment managerFields on Manager { name email }
+    `);
+    expect(doc.selections).toHaveLength(1);
+    expect(doc.fragments).toMatchObject([
+      {
+        kind: "FragmentDefinition",
+        name: "managerFields",
+        typeCondition: "Manager",
+        selections: [{ name: "name" }, { name: "email" }],
+        loc: { line: 3, column: 7 },
+      },
+    ]);
+    expect(parseQuery(`fragment f on T { id } ...f`).__definitions).toEqual({
+      f: { id: "id", __typeCondition: "T" },
+    });
+  });
+
+  it("should shape with fragments defined in the query", () => {
+    const query = `
+      fragment contact on Manager { name mail: email }
+      fragment manager on Team { manager { ...contact level } }
+      team { ...manager }
+    `;
+    expect(shape(data, query)).toEqual({
+      team: {
+        manager: { name: "Alex", mail: "alex@example.com", level: 3 },
+      },
+    });
+    expect(compile(query)(data)).toEqual(shape(data, query));
+  });
+
+  it("should prefer definitions in the query over passed fragments", () => {
+    const query = `team { manager { ...who } } fragment who on M { name }`;
+    const fragments = { who: { email: "email" } };
+    expect(shape(data, query, fragments).team.manager).toEqual({
+      name: "Alex",
+    });
+  });
+
+  it("should keep a field called fragment", () => {
+    expect(shape({ fragment: 1, on: 2 }, "fragment on")).toEqual({
+      fragment: 1,
+      on: 2,
+    });
+  });
+
+  // ======================================================
+  // 🟦 INLINE FRAGMENTS AND TYPE CONDITIONS
+  // ======================================================
+  it("should apply inline fragments by __typename", () => {
+    const query = `team { members {
+      name
+      ... on Admin { permissions }
+      ... on User { plan }
+    } }`;
+    expect(shape(data, query).team.members).toEqual([
+      { name: "Ada", permissions: ["all"] },
+      { name: "Bob", plan: "free" },
+      // Untyped data matches every type condition
+      { name: "Cy", permissions: [], plan: "pro" },
+    ]);
+  });
+
+  it("should apply type conditions of fragment definitions", () => {
+    const query = `
+      team { members { name ...admin } }
+      fragment admin on Admin { permissions }
+    `;
+    expect(shape(data, query).team.members[1]).toEqual({ name: "Bob" });
+  });
+
+  it("should apply inline fragments by @include and @skip", () => {
+    const query = `query ($full: Boolean = false) {
+      team { manager {
+        name
+        ... @include(if: $full) { email }
+        ... @skip(if: "level > 2") { junior: true }
+      } }
+    }`;
+    expect(shape(data, query).team.manager).toEqual({ name: "Alex" });
+    expect(
+      shape(data, query, { variables: { full: true } }).team.manager
+    ).toEqual({ name: "Alex", email: "alex@example.com" });
+  });
+
+  // ======================================================
+  // 🟥 ERRORS
+  // ======================================================
+  it("should throw for unknown spreads", () => {
+    expect(() => shape(data, "team { ...missing }")).toThrow(
+      new QueryFragmentError("missing", 'Unknown fragment "...missing"')
+    );
+  });
+
+  it("should report fragment cycles in the query text", () => {
+    const query = `
+      team { ...a }
+      fragment a on Team { manager { ...b } }
+      fragment b on Manager { name ...a }
+    `;
+    expect(() => parseQuery(query, undefined, { strict: true })).toThrow(
+      'Expected fragments without cycles but found "...a → ...b → ...a" at line 4, column 36'
+    );
+    const diagnostics: QueryParseError[] = [];
+    const lenient = parseQuery(query, undefined, { diagnostics });
+    expect(diagnostics).toHaveLength(1);
+    expect(shape(data, lenient)).toEqual({
+      team: { manager: { name: "Alex" } },
+    });
+  });
+
+  it("should throw for fragment cycles among passed fragments", () => {
+    const fragments = {
+      a: { manager: { __fragments: ["b"] } },
+      b: { __fragments: ["a"] },
+    };
+    expect(() => shape(data, "team { ...a }", fragments)).toThrow(
+      'Fragment "...a" spreads itself: ...a → ...b → ...a'
+    );
+  });
+
+  it("should report duplicate definitions and misplaced directives", () => {
+    expect(() =>
+      parseQuery("fragment a on A { x } fragment a on A { y }", undefined, {
+        strict: true,
+      })
+    ).toThrow('Expected a unique fragment name but found "a"');
+    expect(() =>
+      parseQuery("x { ... @default(value: 1) { y } }", undefined, {
+        strict: true,
+      })
+    ).toThrow("Expected @skip or @include on an inline fragment");
+  });
+
+  // ======================================================
+  // 🟨 TOOLING
+  // ======================================================
+  it("should validate fragments and report unknown spreads", () => {
+    const schema = {
+      type: "object",
+      properties: {
+        team: {
+          type: "object",
+          properties: { manager: { type: "object", properties: { name: {} } } },
+        },
+      },
+    };
+    const errors = validateQuery(
+      `team {
+        ...missing
+        manager { ... on Manager { nick } ...f }
+      }
+      fragment f on Manager { name }`,
+      schema
+    );
+    expect(errors.map((error) => error.message)).toEqual([
+      'Unknown fragment "...missing" at line 2, column 9',
+      'Unknown field "nick" at line 3, column 36',
+    ]);
+  });
+
+  it("should type fields of conditional fragments as optional", () => {
+    const schema = resultSchema(
+      `members { name ... on Admin { permissions } ...f }
+       fragment f on Member { plan }`,
+      {
+        type: "object",
+        properties: {
+          members: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                name: { type: "string" },
+                plan: { type: "string" },
+                permissions: { type: "array", items: { type: "string" } },
+              },
+              required: ["name", "plan", "permissions"],
+            },
+          },
+        },
+      }
+    );
+    expect(schema.properties!.members.items!.required).toEqual(["name"]);
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect } from "vitest";
+import { shape, parseQuery, STANDARD_HELPERS } from "../src/index";
+
+describe("helpers and pipes", () => {
+  const data = {
+    user: {
+      name: "  john doe ",
+      role: "site_admin",
+      createdAt: "2024-03-05T14:07:09.000Z",
+      balance: 1234.5678,
+      nickname: null,
+    },
+    orders: [
+      { id: 1, tags: ["new", "gift"], customer: { city: "Oslo" } },
+      { id: 2, tags: ["gift"], customer: { city: "Paris" } },
+      { id: 3, tags: [], customer: { city: "Oslo" } },
+    ],
+  };
+
+  // ======================================================
+  // 🟩 PIPES
+  // ======================================================
+  for (const mode of ["unsafe", "safe"] as const) {
+    it(`should run pipes in ${mode} mode`, () => {
+      const query = `
+        user {
+          name | trim | titleCase
+          joined: createdAt | date("YYYY-MM-DD [at] HH:mm")
+          balance: balance | round(1)
+          nick: nickname | upper | default("n/a")
+          role | camelCase
+        }
+        cities: orders | pluck("customer.city") | uniq | join(" / ")
+      `;
+      expect(shape(data, query, { mode })).toEqual({
+        user: {
+          name: "John Doe",
+          joined: "2024-03-05 at 14:07",
+          balance: 1234.6,
+          nick: "n/a",
+          role: "siteAdmin",
+        },
+        cities: "Oslo / Paris",
+      });
+    });
+  }
+
+  it("should pipe inside expressions, filters and transforms", () => {
+    const query = `
+      orders(filter: "(tags | join('-')) === 'new-gift'") {
+        id
+        label: "Order " + (id | number(2))
+        tags @transform(fn: "value | join | upper")
+      }
+    `;
+    expect(shape(data, query, { mode: "safe" }).orders).toEqual([
+      { id: 1, label: "Order 1.00", tags: "NEW, GIFT" },
+    ]);
+  });
+
+  it("should keep the field name for unaliased pipes", () => {
+    expect(parseQuery(`name | upper`)).toEqual({
+      name: { expr: "name | upper" },
+    });
+  });
+
+  // ======================================================
+  // 🟦 HELPERS OPTION
+  // ======================================================
+  it("should call custom helpers as pipes and functions", () => {
+    const helpers = {
+      initials: (value: string) =>
+        value
+          .trim()
+          .split(/\s+/)
+          .map((word) => word[0].toUpperCase())
+          .join(""),
+      upper: (value: string) => `<${value}>`,
+    };
+    const query = `
+      a: user.name | initials
+      b: initials(user.role.replace("_", " "))
+      c: "x" | upper
+    `;
+    for (const mode of ["unsafe", "safe"] as const)
+      expect(shape(data, query, { mode, helpers })).toEqual({
+        a: "JD",
+        b: "SA",
+        c: "<x>",
+      });
+  });
+
+  it("should not resolve missing fields to helpers", () => {
+    const item = { date: "today" };
+    expect(shape(item, `date trim`)).toEqual({ date: "today", trim: null });
+    expect(shape(item, `date trim`, { mode: "safe" })).toEqual({
+      date: "today",
+      trim: null,
+    });
+  });
+
+  it("should return null for unknown helpers", () => {
+    const result = shape(data, `x: user.name | shout`, { mode: "safe" });
+    expect(result.x).toBeNull();
+  });
+
+  // ======================================================
+  // 🟨 STANDARD LIBRARY
+  // ======================================================
+  it("should format strings, numbers and dates", () => {
+    const h = STANDARD_HELPERS;
+    expect(h.snakeCase("userProfile Id")).toBe("user_profile_id");
+    expect(h.kebabCase("User Profile")).toBe("user-profile");
+    expect(h.capitalize("hELLO")).toBe("Hello");
+    expect(h.number(1234.5, 2)).toBe("1,234.50");
+    expect(h.number(1234.5, 1, "de-DE")).toBe("1.234,5");
+    expect(h.round(-2.5)).toBe(-3);
+    expect(h.date(0, "YYYY/MM/DD HH:mm:ss.SSS")).toBe(
+      "1970/01/01 00:00:00.000"
+    );
+    expect(h.date("not a date")).toBeNull();
+    expect(h.upper(null)).toBeNull();
+    expect(h.default(0, 5)).toBe(0);
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, it, expect } from "vitest";
+import {
+  multiSource,
+  shape,
+  parseQuery,
+  generateTypes,
+  QueryParseError,
+  QueryVariableError,
+} from "../src/index";
+
+describe("@join", () => {
+  const data = {
+    users: [
+      { id: 1, name: "Ada" },
+      { id: 2, name: "Linus" },
+    ],
+    posts: [
+      { id: 10, title: "Engines", authorId: 1, tagIds: ["b", "a"] },
+      { id: 11, title: "Kernels", authorId: 2, tagIds: [] },
+      { id: 12, title: "Notes", authorId: 1, tagIds: ["a"] },
+      { id: 13, title: "Orphan", authorId: 9, tagIds: ["x"] },
+    ],
+    comments: [
+      { postId: 10, body: "Great" },
+      { postId: 12, body: "Thanks" },
+      { postId: 10, body: "More!" },
+    ],
+    tags: [
+      { key: "a", label: "Math" },
+      { key: "b", label: "History" },
+    ],
+  };
+
+  // ======================================================
+  // 🟩 ONE-TO-ONE AND ONE-TO-MANY
+  // ======================================================
+  it("should join one item by key", () => {
+    const query = `
+      posts(limit: 2) {
+        title
+        author @join(from: "users", on: "authorId = id") { name }
+      }
+    `;
+    expect(shape(data, query).posts).toEqual([
+      { title: "Engines", author: { name: "Ada" } },
+      { title: "Kernels", author: { name: "Linus" } },
+    ]);
+    expect(
+      shape(
+        data,
+        `posts(skip: 3) { author @join(from: "users", on: "authorId = id") { name } }`
+      ).posts
+    ).toEqual([{ author: null }]);
+  });
+
+  it("should join many items and shape them like any array", () => {
+    const query = `
+      users {
+        name
+        posts @join(from: "posts", on: "id = authorId", many: true) { title }
+        latest: posts(orderBy: "id desc", limit: 1)
+          @join(from: "posts", on: "id = authorId", many: true) { id }
+      }
+    `;
+    expect(shape(data, query).users).toEqual([
+      {
+        name: "Ada",
+        posts: [{ title: "Engines" }, { title: "Notes" }],
+        latest: [{ id: 12 }],
+      },
+      { name: "Linus", posts: [{ title: "Kernels" }], latest: [{ id: 11 }] },
+    ]);
+  });
+
+  it("should join one item per key of an array", () => {
+    const query = `
+      posts(limit: 2) { tags @join(from: "tags", on: "tagIds = key") { label } }
+    `;
+    expect(shape(data, query).posts).toEqual([
+      { tags: [{ label: "History" }, { label: "Math" }] },
+      { tags: [] },
+    ]);
+  });
+
+  it("should index each joined array once per call", () => {
+    let reads = 0;
+    const comments = data.comments.map((comment) => ({
+      body: comment.body,
+      get postId() {
+        reads++;
+        return comment.postId;
+      },
+    }));
+    const query = `
+      posts { comments @join(from: "comments", on: "id = postId", many: true) { body } }
+    `;
+    const result = shape({ ...data, comments }, query);
+    expect(result.posts[0].comments).toEqual([
+      { body: "Great" },
+      { body: "More!" },
+    ]);
+    expect(reads).toBe(comments.length);
+  });
+
+  it("should take join arguments from variables", () => {
+    const query = `
+      query ($on: String = "authorId = id") {
+        posts(limit: 1) { author @join(from: "users", on: $on) { name } }
+      }
+    `;
+    expect(shape(data, query).posts).toEqual([{ author: { name: "Ada" } }]);
+    expect(() => shape(data, query, { variables: { on: "authorId" } })).toThrow(
+      QueryVariableError
+    );
+  });
+
+  it("should join from a named source", () => {
+    const sources = {
+      blog: { posts: data.posts },
+      people: { users: data.users },
+    };
+    const query = `
+      blog::posts(limit: 1) {
+        author @join(from: "people::users", on: "authorId = id") { name }
+      }
+    `;
+    expect(shape(multiSource(sources), query)).toEqual({
+      posts: [{ author: { name: "Ada" } }],
+    });
+  });
+
+  // ======================================================
+  // 🟦 PARSING AND TYPES
+  // ======================================================
+  it("should lower @join and report malformed ones", () => {
+    expect(
+      parseQuery(`author @join(from: "users", on: "authorId == id") { name }`)
+    ).toEqual({
+      author: {
+        join: { from: "users", on: "authorId == id" },
+        nested: { name: "name" },
+      },
+    });
+
+    const diagnostics: QueryParseError[] = [];
+    parseQuery(
+      `a @join(from: "users") b @join(from: "users", on: "x = ")`,
+      undefined,
+      {
+        diagnostics,
+      }
+    );
+    expect(diagnostics.map((d) => d.message)).toEqual([
+      'Expected @join(from: "...", on: "...") but found no "on" at line 1, column 3',
+      'Expected @join condition as "localPath = foreignPath" but found "x = " at line 1, column 26',
+    ]);
+  });
+
+  it("should type joined items", () => {
+    const source = generateTypes(
+      `posts {
+        author @join(from: "users", on: "authorId = id") { name }
+        comments @join(from: "comments", on: "id = postId", many: true) { body }
+      }`,
+      { sample: data }
+    );
+    expect(source).toContain("author: {\n      name: string;\n    } | null;");
+    expect(source).toContain("comments: {\n      body: string;\n    }[];");
+  });
+});
@@ -0,0 +1,240 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { createServer, Server, ServerResponse } from "http";
+import { AddressInfo } from "net";
+import {
+  createResponseShaper,
+  expressShape,
+  fastifyShape,
+  koaShape,
+  ShapeMiddlewareOptions,
+} from "../src/index";
+
+const user = {
+  id: 1,
+  name: "Ada",
+  password: "secret",
+  posts: [
+    { title: "Engines", likes: 3, draft: false },
+    { title: "Notes", likes: 9, draft: true },
+  ],
+};
+
+describe("response shaping middleware", () => {
+  let server: Server;
+  let base: string;
+  let options: ShapeMiddlewareOptions = {};
+
+  // A local HTTP server with the two response helpers Express middleware uses
+  beforeAll(async () => {
+    server = createServer((req, res: ServerResponse & Record<string, any>) => {
+      res.status = (code: number) => ((res.statusCode = code), res);
+      res.json = (body: any) => {
+        res.setHeader("content-type", "application/json");
+        res.end(JSON.stringify(body));
+      };
+      expressShape(options)(req, res as any, () => res.json(user));
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    base = `http://localhost:${(server.address() as AddressInfo).port}`;
+  });
+  afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  const get = async (
+    query?: string,
+    using: ShapeMiddlewareOptions = {},
+    headers: Record<string, string> = {}
+  ) => {
+    options = using;
+    const url = query ? `${base}/?shape=${encodeURIComponent(query)}` : base;
+    const res = await fetch(url, { headers });
+    return { status: res.status, body: await res.json() };
+  };
+
+  // ======================================================
+  // 🟩 EXPRESS OVER HTTP
+  // ======================================================
+  it("should shape res.json bodies by the shape parameter", async () => {
+    expect(await get(`name posts(limit: 1) { title }`)).toEqual({
+      status: 200,
+      body: { name: "Ada", posts: [{ title: "Engines" }] },
+    });
+    expect((await get()).body).toEqual(user);
+  });
+
+  it("should read the query from a header", async () => {
+    const res = await get(undefined, {}, { "X-Rest-Shape": "id" });
+    expect(res.body).toEqual({ id: 1 });
+    const custom = await get(
+      undefined,
+      { header: "x-fields" },
+      { "x-fields": "name" }
+    );
+    expect(custom.body).toEqual({ name: "Ada" });
+  });
+
+  it("should answer 400 for queries that do not parse", async () => {
+    expect(await get(`posts(limit: ) { title }`)).toEqual({
+      status: 400,
+      body: {
+        error: 'Expected value but found ")" at line 1, column 14',
+        line: 1,
+        column: 14,
+      },
+    });
+  });
+
+  it("should run expressions in safe mode", async () => {
+    const res = await get(`leak: constructor.constructor("return process")()`);
+    expect(res).toEqual({ status: 200, body: { leak: null } });
+  });
+
+  // ======================================================
+  // 🟥 LIMITS
+  // ======================================================
+  it("should only accept named queries when asked to", async () => {
+    const using = {
+      queries: { card: "name posts { title }" },
+      namedOnly: true,
+    };
+    expect((await get("card", using)).body).toEqual({
+      name: "Ada",
+      posts: [{ title: "Engines" }, { title: "Notes" }],
+    });
+    expect(await get("password", using)).toEqual({
+      status: 400,
+      body: { error: 'Unknown query "password"' },
+    });
+  });
+
+  it("should refuse fields outside the allowlist", async () => {
+    const using = { fields: ["name", "posts.title", "posts.likes"] };
+    expect(
+      (await get(`name posts(orderBy: "likes desc") { title }`, using)).body
+    ).toEqual({
+      name: "Ada",
+      posts: [{ title: "Notes" }, { title: "Engines" }],
+    });
+
+    const refused = async (query: string) => (await get(query, using)).body;
+    expect(await refused(`password`)).toEqual({
+      error: 'Field "password" is not allowed',
+    });
+    expect(await refused(`posts { draft }`)).toEqual({
+      error: 'Field "posts.draft" is not allowed',
+    });
+    expect(await refused(`posts { t: name }`)).toEqual({
+      error: 'Field "posts.name" is not allowed',
+    });
+    expect(await refused(`posts(filter: "draft") { title }`)).toEqual({
+      error: 'Argument "filter" is not allowed',
+    });
+    expect(await refused(`x: name.length * 2`)).toEqual({
+      error: 'Field "x" is not allowed',
+    });
+    expect(await refused(`posts(orderBy: "draft") { title }`)).toEqual({
+      error: 'Field "posts.draft" is not allowed',
+    });
+  });
+
+  it("should read allowed fields within their parent only", () => {
+    const shapeBody = createResponseShaper({ fields: ["user"] });
+    const body = { user: { id: 1 }, secret: "TOPSECRET" };
+    expect(shapeBody(body, "user { id secret s: secret }")).toEqual({
+      status: 200,
+      body: { user: { id: 1, secret: null, s: null } },
+    });
+  });
+
+  it("should refuse variables with an allowlist", () => {
+    const shapeBody = createResponseShaper({ fields: ["items.id"] });
+    const body = { items: [{ id: 1, secret: 2 }] };
+    expect(
+      shapeBody(
+        body,
+        `query ($o: String = "secret asc") { items(orderBy: $o) { id } }`
+      )
+    ).toEqual({ status: 400, body: { error: "Variables are not allowed" } });
+    expect(shapeBody(body, `items(orderBy: $o) { id }`)).toEqual({
+      status: 400,
+      body: { error: 'Argument "orderBy" is not allowed' },
+    });
+  });
+
+  it("should answer 400 for queries that cannot be applied", () => {
+    const shapeBody = createResponseShaper({ fields: ["items.id"] });
+    const body = { items: [{ id: 1 }] };
+    expect(shapeBody(body, `items(first: 1, envelope: "nope") { id }`)).toEqual(
+      {
+        status: 400,
+        body: { error: 'Unknown pagination envelope "nope"' },
+      }
+    );
+    expect(shapeBody(body, `items(directives: 1) { id }`)).toMatchObject({
+      status: 400,
+      body: { line: 1, column: 7 },
+    });
+    const open = createResponseShaper();
+    expect(
+      open(body, `items(orderBy: "id", locale: "xx_bad") { id }`).status
+    ).toBe(400);
+    expect(open(body, `items(discriminator: 1) { id }`).status).toBe(400);
+  });
+
+  it("should limit depth and size", async () => {
+    expect(await get(`posts { title }`, { maxDepth: 1 })).toEqual({
+      status: 400,
+      body: { error: "Query is nested deeper than 1 levels" },
+    });
+    expect((await get(`name`, { maxBytes: 20 })).status).toBe(200);
+    expect(await get(`posts { title }`, { maxBytes: 20 })).toEqual({
+      status: 400,
+      body: { error: "Shaped response is larger than 20 bytes" },
+    });
+  });
+
+  // ======================================================
+  // 🟦 KOA AND FASTIFY
+  // ======================================================
+  it("should shape ctx.body in Koa", async () => {
+    const ctx = {
+      url: "/users/1?shape=name",
+      headers: {},
+      body: undefined as any,
+      status: 200,
+    };
+    await koaShape()(ctx, async () => {
+      ctx.body = user;
+    });
+    expect(ctx.body).toEqual({ name: "Ada" });
+
+    const bad = { ...ctx, query: { shape: "name {" }, body: user };
+    await koaShape()(bad, async () => {});
+    expect(bad.status).toBe(400);
+    expect(bad.body.error).toMatch(/^Expected "}"/);
+  });
+
+  it("should shape payloads in a Fastify hook", async () => {
+    let code = 200;
+    const reply = { code: (status: number) => (code = status) };
+    const hook = fastifyShape({ param: "fields" });
+    const request = { query: { fields: "id" }, headers: {} };
+    expect(await hook(request, reply, user)).toEqual({ id: 1 });
+    expect(await hook({ ...request, query: {} }, reply, user)).toBe(user);
+    expect(
+      await hook({ query: { fields: "id {" }, headers: {} }, reply, user)
+    ).toMatchObject({ error: expect.any(String) });
+    expect(code).toBe(400);
+  });
+
+  it("should pass through bodies that are not objects", () => {
+    const shapeBody = createResponseShaper();
+    expect(shapeBody("plain text", "name")).toEqual({
+      status: 200,
+      body: "plain text",
+    });
+    expect(shapeBody([user], "name")).toEqual({
+      status: 200,
+      body: [{ name: "Ada" }],
+    });
+  });
+});
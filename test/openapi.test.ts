@@ -0,0 +1,199 @@
+import { describe, it, expect } from "vitest";
+import {
+  loadOpenApi,
+  shapedOperations,
+  shapeOpenApi,
+  toOpenApi30,
+  OpenApiDocument,
+} from "../src/index";
+import { main, CliIO } from "../src/cli";
+
+describe("OpenAPI integration", () => {
+  const spec = (version = "3.1.0"): OpenApiDocument => ({
+    openapi: version,
+    info: { title: "Users", version: "1.0.0" },
+    paths: {
+      "/users/{id}": {
+        get: {
+          operationId: "getUser",
+          "x-rest-shape": "name city: address.city nickname",
+          responses: {
+            "200": { $ref: "#/components/responses/User" },
+            "404": { description: "Not found" },
+          },
+        },
+      },
+      "/users": {
+        get: {
+          "x-rest-shape": { query: "name", status: "200" },
+          responses: {
+            "200": {
+              description: "Users",
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "array",
+                    items: { $ref: "#/components/schemas/User" },
+                  },
+                },
+              },
+            },
+          },
+        },
+        post: { responses: { "201": { description: "Created" } } },
+      },
+    },
+    components: {
+      schemas: {
+        User: {
+          type: "object",
+          required: ["name", "address"],
+          properties: {
+            name: { type: "string" },
+            address: {
+              type: "object",
+              properties: { city: { type: "string" } },
+            },
+          },
+        },
+      },
+      responses: {
+        User: {
+          description: "A user",
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/User" },
+            },
+          },
+        },
+      },
+    },
+  });
+  const withFile = spec();
+  withFile.paths!["/users"].get["x-rest-shape"] = {
+    file: "users.shape",
+    status: "200",
+  };
+  const files: Record<string, string> = {
+    "api/users.json": JSON.stringify(withFile),
+    "api/users.shape": "name",
+  };
+  const readFile = (path: string) => files[path];
+
+  // ======================================================
+  // 🟩 SHAPED OPERATIONS
+  // ======================================================
+  it("should load query files next to the document", () => {
+    const document = loadOpenApi("api/users.json", readFile);
+    expect(document.paths!["/users"].get["x-rest-shape"]).toEqual({
+      status: "200",
+      query: "name",
+    });
+  });
+
+  it("should validate each query against its response schema", () => {
+    const operations = shapedOperations(spec());
+    expect(operations).toHaveLength(2);
+    const [user] = operations;
+    expect(user).toMatchObject({
+      method: "get",
+      path: "/users/{id}",
+      operationId: "getUser",
+      status: "200",
+      mediaType: "application/json",
+    });
+    expect(user.errors.map((error) => error.message)).toEqual([
+      'Unknown field "nickname" at line 1, column 25',
+    ]);
+    expect(user.input.properties!.address.properties).toEqual({
+      city: { type: "string" },
+    });
+  });
+
+  it("should derive the shaped response schemas", () => {
+    const loaded = loadOpenApi("api/users.json", readFile);
+    const { document, operations } = shapeOpenApi(loaded);
+    expect(operations.map((operation) => operation.path)).toEqual([
+      "/users/{id}",
+      "/users",
+    ]);
+
+    const user = document.paths!["/users/{id}"].get;
+    expect(user["x-rest-shape"]).toBeUndefined();
+    expect(user.responses["200"].description).toBe("A user");
+    expect(user.responses["200"].content["application/json"].schema).toEqual({
+      type: "object",
+      properties: {
+        name: { type: "string" },
+        city: { type: ["string", "null"] },
+        nickname: {},
+      },
+      required: ["name", "city", "nickname"],
+      additionalProperties: false,
+    });
+    // Shared components and the input document stay as declared
+    expect(document.components).toEqual(loaded.components);
+    expect(loaded.paths!["/users/{id}"].get["x-rest-shape"]).toBeDefined();
+  });
+
+  it("should write OpenAPI 3.0 nullability for 3.0 documents", () => {
+    const { document } = shapeOpenApi(spec("3.0.3"));
+    const schema =
+      document.paths!["/users/{id}"].get.responses["200"].content[
+        "application/json"
+      ].schema;
+    expect(schema.properties.city).toEqual({ type: "string", nullable: true });
+    expect(
+      toOpenApi30({ anyOf: [{ type: "object" }, { type: "null" }] })
+    ).toEqual({ type: "object", nullable: true });
+    expect(toOpenApi30({ type: ["string", "integer"] })).toEqual({
+      anyOf: [{ type: "string" }, { type: "integer" }],
+    });
+  });
+
+  // ======================================================
+  // 🟥 ERRORS AND CLI
+  // ======================================================
+  it("should report operations it cannot shape", () => {
+    const document = spec();
+    document.paths!["/users"].get["x-rest-shape"] = { file: "users.shape" };
+    document.paths!["/users/{id}"].get["x-rest-shape"] = {
+      query: "name",
+      status: "404",
+    };
+    expect(() => shapedOperations(document)).toThrow(
+      "GET /users/{id}: no application/json schema for response 404"
+    );
+    delete document.paths!["/users/{id}"].get["x-rest-shape"];
+    expect(() => shapedOperations(document)).toThrow(
+      'GET /users: x-rest-shape file "users.shape" is not loaded, use loadOpenApi'
+    );
+  });
+
+  it("should derive the document from the CLI", () => {
+    const written: Record<string, string> = { ...files };
+    let errors = "";
+    const io: CliIO = {
+      readFile: (path) => written[path],
+      writeFile: (path, content) => (written[path] = content),
+      stdout: () => {},
+      stderr: (text) => (errors += text),
+    };
+    expect(main(["openapi", "api/users.json", "--out", "out.json"], io)).toBe(
+      1
+    );
+    expect(errors).toBe(
+      'GET /users/{id}: Unknown field "nickname" at line 1, column 25\n'
+    );
+
+    const valid = spec();
+    valid.paths!["/users/{id}"].get["x-rest-shape"] = "name";
+    written["api/users.json"] = JSON.stringify(valid);
+    expect(main(["openapi", "api/users.json", "--out", "out.json"], io)).toBe(
+      0
+    );
+    expect(
+      JSON.parse(written["out.json"]).paths["/users"].get
+    ).not.toHaveProperty("x-rest-shape");
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect } from "vitest";
+import {
+  shape,
+  encodeCursor,
+  generateTypes,
+  QueryArgumentError,
+  QueryParseError,
+  QueryVariableError,
+} from "../src/index";
+
+describe("pagination", () => {
+  const data = {
+    posts: [1, 2, 3, 4, 5].map((id) => ({
+      id,
+      title: `Post ${id}`,
+      status: id === 3 ? "draft" : "published",
+    })),
+  };
+
+  // ======================================================
+  // 🟩 CURSORS
+  // ======================================================
+  it("should return a connection for first and after", () => {
+    const first = shape(data, `posts(first: 2) { id }`).posts;
+    expect(first).toEqual({
+      edges: [
+        { cursor: encodeCursor(0), node: { id: 1 } },
+        { cursor: encodeCursor(1), node: { id: 2 } },
+      ],
+      pageInfo: {
+        hasNextPage: true,
+        hasPreviousPage: false,
+        startCursor: encodeCursor(0),
+        endCursor: encodeCursor(1),
+      },
+      totalCount: 5,
+    });
+
+    const query = `
+      query ($after: String) {
+        posts(filter: "status === 'published'", first: 2, after: $after) { id }
+      }
+    `;
+    const next = shape(data, query, {
+      variables: { after: first.pageInfo.endCursor },
+    }).posts;
+    expect(next.edges.map((edge: any) => edge.node.id)).toEqual([4, 5]);
+    expect(next.pageInfo).toMatchObject({
+      hasNextPage: false,
+      hasPreviousPage: true,
+    });
+    expect(next.totalCount).toBe(4);
+  });
+
+  it("should reject cursors it did not issue", () => {
+    const query = `query ($after: String) { posts(after: $after) { id } }`;
+    expect(() => shape(data, query, { variables: { after: "bogus" } })).toThrow(
+      QueryVariableError
+    );
+  });
+
+  // ======================================================
+  // 🟦 PAGES
+  // ======================================================
+  it("should return a page envelope for page and pageSize", () => {
+    expect(shape(data, `posts(page: 2, pageSize: 2) { title }`).posts).toEqual({
+      items: [{ title: "Post 3" }, { title: "Post 4" }],
+      total: 5,
+      page: 2,
+      pageSize: 2,
+      hasNext: true,
+    });
+    const last = shape(data, `posts(page: 3, pageSize: 2) { id }`).posts;
+    expect(last).toMatchObject({ items: [{ id: 5 }], hasNext: false });
+  });
+
+  it("should sort before paginating", () => {
+    const query = `posts(orderBy: "id desc", page: 1, pageSize: 2) { id }`;
+    expect(shape(data, query).posts.items).toEqual([{ id: 5 }, { id: 4 }]);
+  });
+
+  // ======================================================
+  // 🟨 ENVELOPES
+  // ======================================================
+  it("should switch and add envelopes", () => {
+    const page = shape(data, `posts(first: 1, envelope: "page") { id }`);
+    expect(page.posts).toEqual({
+      items: [{ id: 1 }],
+      total: 5,
+      page: 1,
+      pageSize: 1,
+      hasNext: true,
+    });
+
+    const envelopes = {
+      list: ({ items, total, offset }: any) => ({ data: items, total, offset }),
+    };
+    const query = `posts(page: 2, pageSize: 3, envelope: "list") { id }`;
+    expect(shape(data, query, { envelopes }).posts).toEqual({
+      data: [{ id: 4 }, { id: 5 }],
+      total: 5,
+      offset: 3,
+    });
+    expect(() => shape(data, query)).toThrow(
+      new QueryArgumentError("envelope", 'Unknown pagination envelope "list"')
+    );
+  });
+
+  it("should type connection and page envelopes", () => {
+    const source = generateTypes(`posts(first: 2) { id }`, { sample: data });
+    expect(source).toContain("edges: {\n      cursor: string;");
+    expect(source).toContain("endCursor: string | null;");
+    expect(generateTypes(`posts(page: 1) { id }`, { sample: data })).toContain(
+      "hasNext: boolean;"
+    );
+  });
+
+  // ======================================================
+  // 🟥 ERRORS
+  // ======================================================
+  it("should report conflicting pagination arguments", () => {
+    const diagnostics: QueryParseError[] = [];
+    shape(
+      data,
+      `posts(first: 1, page: 2) { id }
+       posts(after: "nope") { id }
+       posts(page: 1, groupBy: "status") { id }`,
+      { diagnostics }
+    );
+    expect(diagnostics.map((d) => d.message)).toEqual([
+      'Expected "first" without page/pageSize but found "page" at line 1, column 1',
+      'Expected a cursor from a previous page but found "nope" at line 2, column 8',
+      'Expected a paginated field without groupBy but found "groupBy" at line 3, column 8',
+    ]);
+  });
+});
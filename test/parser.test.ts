@@ -0,0 +1,228 @@
+import { describe, it, expect } from "vitest";
+import {
+  shape,
+  parseQuery,
+  parseDocument,
+  QueryParseError,
+} from "../src/index";
+
+describe("query parser", () => {
+  const data = {
+    user: {
+      name: "John",
+      lastName: "Doe",
+      email: "john@example.com",
+      isGuest: false,
+      department: {
+        name: "Engineering",
+        manager: { name: "Alex", email: "alex@example.com" },
+      },
+    },
+    posts: [
+      { title: "Post 1", status: "published", likes: 120 },
+      { title: "Post 2", status: "draft", likes: 30 },
+    ],
+  };
+
+  // ======================================================
+  // 🟩 AST
+  // ======================================================
+  it("should produce a typed AST with locations", () => {
+    const doc = parseDocument(`
+      user @include(if: "true") {
+        mail: email
+        ...contact
+      }
+    `);
+    expect(doc.kind).toBe("Document");
+    const [user] = doc.selections;
+    expect(user).toMatchObject({
+      kind: "Field",
+      name: "user",
+      directives: [
+        { kind: "Directive", name: "include", arguments: { if: "true" } },
+      ],
+      loc: { line: 2, column: 7 },
+    });
+    expect(user.kind === "Field" && user.selections).toMatchObject([
+      { kind: "Field", name: "mail", source: "email", loc: { line: 3 } },
+      { kind: "FragmentSpread", name: "contact", loc: { line: 4 } },
+    ]);
+  });
+
+  it("should lower aliases, paths and computed fields", () => {
+    const query = parseQuery(`
+      name
+      mail: email
+      managerEmail: department.manager.email
+      phone: phone || backupPhone || "N/A"
+      total: likes * 2
+    `);
+    expect(query).toEqual({
+      name: "name",
+      mail: { path: "email" },
+      managerEmail: { path: "department.manager.email" },
+      phone: { path: 'phone || backupPhone || "N/A"' },
+      total: { expr: "likes * 2" },
+    });
+  });
+
+  // ======================================================
+  // 🟨 LAYOUT
+  // ======================================================
+  it("should accept arbitrary whitespace and newlines", () => {
+    const query = `
+      user
+      {
+        name
+        department
+        {
+          name }
+      }
+      posts(
+        filter: "status === 'published'",
+        limit: 1
+      )
+      { title }
+    `;
+    expect(shape(data, query)).toEqual({
+      user: { name: "John", department: { name: "Engineering" } },
+      posts: [{ title: "Post 1" }],
+    });
+  });
+
+  it("should nest inline selections", () => {
+    const query = `user { department { manager { name } } name }`;
+    expect(shape(data, query)).toEqual({
+      user: { department: { manager: { name: "Alex" } }, name: "John" },
+    });
+  });
+
+  it("should allow comments anywhere", () => {
+    const query = `
+      # leading comment
+      user { # after brace
+        name # after field
+        # between fields
+        mail: email # after alias
+      }
+    `;
+    expect(shape(data, query)).toEqual({
+      user: { name: "John", mail: "john@example.com" },
+    });
+  });
+
+  // ======================================================
+  // 🟦 DIRECTIVES
+  // ======================================================
+  it("should apply multiple directives on one field", () => {
+    const query = `
+      user {
+        phone @include(if: "!isGuest") @default(value: "n/a")
+        email @skip(if: "isGuest") @transform(fn: "value.toUpperCase()")
+      }
+    `;
+    expect(shape(data, query).user).toEqual({
+      phone: "n/a",
+      email: "JOHN@EXAMPLE.COM",
+    });
+  });
+
+  it("should apply directives to dotted paths and computed fields", () => {
+    const query = `
+      boss: user.department.manager.name @transform(fn: "value.toUpperCase()")
+      full: user.name + " " + user.lastName @transform(fn: "value.toUpperCase()")
+      mail: user.email @skip(if: "user.isGuest === false")
+    `;
+    expect(shape(data, query)).toEqual({
+      boss: "ALEX",
+      full: "JOHN DOE",
+      mail: null,
+    });
+  });
+
+  it("should alias fields with arguments and selections", () => {
+    const query = `
+      popular: posts(filter: "likes > 100") { title }
+      boss: user.department.manager { name }
+    `;
+    expect(shape(data, query)).toEqual({
+      popular: [{ title: "Post 1" }],
+      boss: { name: "Alex" },
+    });
+  });
+
+  // ======================================================
+  // 🟥 ERRORS
+  // ======================================================
+  it("should throw a QueryParseError with location in strict mode", () => {
+    const query = `user {\n  name\n  posts(limit: ) { title }\n}`;
+    let error: QueryParseError | undefined;
+    try {
+      parseQuery(query, undefined, { strict: true });
+    } catch (err) {
+      error = err as QueryParseError;
+    }
+    expect(error).toBeInstanceOf(QueryParseError);
+    expect(error).toMatchObject({
+      line: 3,
+      column: 16,
+      expected: "Expected value",
+      found: '")"',
+      snippet: "  posts(limit: ) { title }\n               ^",
+    });
+    expect(error!.message).toBe(
+      'Expected value but found ")" at line 3, column 16'
+    );
+  });
+
+  it("should report unbalanced braces in strict mode", () => {
+    expect(() => shape(data, `user {\n  name\n`, { strict: true })).toThrow(
+      'Expected "}" but found end of input at line 3, column 1'
+    );
+    expect(() => parseDocument(`user { name } }`, { strict: true })).toThrow(
+      'Expected field name but found "}" at line 1, column 15'
+    );
+  });
+
+  it("should report arguments a field does not accept", () => {
+    expect(() =>
+      parseQuery(`user(limit: 1, path: "secret") { name }`, undefined, {
+        strict: true,
+      })
+    ).toThrow(
+      /^Expected one of limit, .* as argument but found "path" at line 1, column 16$/
+    );
+    const diagnostics: QueryParseError[] = [];
+    expect(
+      parseQuery(`user(nested: 1, directives: 1) { name }`, undefined, {
+        diagnostics,
+      })
+    ).toEqual({ user: { nested: { name: "name" } } });
+    expect(diagnostics.map((d) => [d.column, d.found])).toEqual([
+      [6, '"nested"'],
+      [17, '"directives"'],
+    ]);
+  });
+
+  it("should collect diagnostics and keep valid fields in lenient mode", () => {
+    const diagnostics: QueryParseError[] = [];
+    const query = `
+      user {
+        name
+        bad(limit: )
+        email
+      }
+      title: "unterminated
+      posts { title
+    `;
+    const result = shape(data, query, { diagnostics });
+    expect(result.user).toEqual({ name: "John", email: "john@example.com" });
+    expect(result.posts).toEqual([{ title: "Post 1" }, { title: "Post 2" }]);
+    expect(diagnostics.map((d) => [d.line, d.column, d.expected])).toEqual([
+      [4, 20, "Expected value"],
+      [7, 14, 'Expected closing "'],
+      [9, 5, 'Expected "}"'],
+    ]);
+  });
+});
@@ -0,0 +1,159 @@
+import { describe, it, expect } from "vitest";
+import { createHash } from "crypto";
+import {
+  QueryRegistry,
+  PersistedQueryError,
+  QueryParseError,
+  ShapeFileSystem,
+  createResponseShaper,
+} from "../src/index";
+
+const hash = (text: string) => createHash("sha256").update(text).digest("hex");
+
+describe("QueryRegistry", () => {
+  const data = {
+    user: { name: "Ada", email: "ada@example.com" },
+    posts: [{ title: "Engines" }, { title: "Notes" }],
+  };
+
+  // ======================================================
+  // 🟩 REGISTERING AND RESOLVING
+  // ======================================================
+  it("should address queries by name and SHA-256 id", () => {
+    const registry = new QueryRegistry();
+    const text = "user { name } posts(limit: 1) { title }";
+    const id = registry.register("card", text);
+    expect(id).toBe(hash(text));
+    expect(registry.names()).toEqual(["card"]);
+
+    const expected = { user: { name: "Ada" }, posts: [{ title: "Engines" }] };
+    expect(registry.shape(data, "card")).toEqual(expected);
+    expect(registry.shape(data, id)).toEqual(expected);
+    expect(registry.shape(data, { id })).toEqual(expected);
+    expect(registry.get("card")).toMatchObject({ id, name: "card", text });
+  });
+
+  it("should spread registered fragments", () => {
+    const registry = new QueryRegistry({ mode: "safe" });
+    registry.register("profile", "user { ...contact }");
+    registry.registerFragment("contact", "name mail: email");
+    expect(registry.shape(data, "profile")).toEqual({
+      user: { name: "Ada", mail: "ada@example.com" },
+    });
+  });
+
+  it("should take variables", () => {
+    const registry = new QueryRegistry();
+    registry.register(
+      "posts",
+      "query ($n: Int = 2) { posts(limit: $n) { title } }"
+    );
+    expect(registry.shape(data, "posts", { n: 1 })).toEqual({
+      posts: [{ title: "Engines" }],
+    });
+  });
+
+  it("should persist text sent with its id unless locked", () => {
+    const text = "user { email }";
+    const open = new QueryRegistry();
+    expect(open.shape(data, { id: hash(text), query: text })).toEqual({
+      user: { email: "ada@example.com" },
+    });
+    expect(open.get(hash(text))?.text).toBe(text);
+    // Plain text is shaped but not kept
+    expect(open.shape(data, { query: "user { name }" })).toEqual({
+      user: { name: "Ada" },
+    });
+    expect(open.get(hash("user { name }"))).toBeUndefined();
+  });
+
+  it("should run client text in safe mode unless told otherwise", () => {
+    const query = "home: process.env.HOME";
+    expect(new QueryRegistry().shape({}, { query })).toEqual({ home: null });
+    expect(
+      new QueryRegistry({ clientMode: "unsafe" }).shape({}, { query })
+    ).toEqual({ home: process.env.HOME });
+    // Registered queries keep the registry's mode
+    const registry = new QueryRegistry();
+    registry.register("home", query);
+    expect(registry.shape({}, "home")).toEqual({ home: process.env.HOME });
+  });
+
+  it("should keep a bounded number of persisted queries", () => {
+    const open = new QueryRegistry();
+    const texts = Array.from({ length: 1001 }, (_, i) => `n${i}`);
+    texts.forEach((text) => open.resolve({ id: hash(text), query: text }));
+    expect(open.get(hash(texts[0]))).toBeUndefined();
+    expect(open.get(hash(texts[1000]))?.text).toBe("n1000");
+  });
+
+  // ======================================================
+  // 🟥 REFUSALS
+  // ======================================================
+  it("should refuse unknown, mismatched and unregistered queries", () => {
+    const registry = new QueryRegistry({ lock: true });
+    registry.register("card", "user { name }");
+    const codeOf = (request: any) => {
+      try {
+        registry.resolve(request);
+      } catch (err) {
+        expect(err).toBeInstanceOf(PersistedQueryError);
+        return (err as PersistedQueryError).code;
+      }
+    };
+    expect(codeOf("missing")).toBe("PERSISTED_QUERY_NOT_FOUND");
+    expect(codeOf({ id: "abc", query: "user { name }" })).toBe(
+      "PERSISTED_QUERY_HASH_MISMATCH"
+    );
+    expect(codeOf({ query: "user { email }" })).toBe("QUERY_NOT_REGISTERED");
+    // Registered text is accepted even when sent as text
+    expect(registry.shape(data, { query: "user { name }" })).toEqual({
+      user: { name: "Ada" },
+    });
+  });
+
+  it("should reject broken and duplicate registrations", () => {
+    const registry = new QueryRegistry();
+    expect(() => registry.register("bad", "user {")).toThrow(QueryParseError);
+    registry.register("card", "user { name }");
+    expect(() => registry.register("card", "posts { title }")).toThrow(
+      'Query "card" is already registered'
+    );
+  });
+
+  // ======================================================
+  // 🟦 LOADING AND MIDDLEWARE
+  // ======================================================
+  it("should load a directory of .shape files", () => {
+    const files: Record<string, string> = {
+      "queries/card.shape": "user { ...contact }",
+      "queries/titles.shape": "posts { title }",
+      "queries/contact.fragment.shape": "email",
+      "queries/README.md": "not a query",
+    };
+    const fs: ShapeFileSystem = {
+      readdirSync: () => Object.keys(files).map((path) => path.slice(8)),
+      readFileSync: (path) => files[path],
+    };
+    const registry = new QueryRegistry({ lock: true }).loadDirectory(
+      "queries/",
+      fs
+    );
+    expect(registry.names()).toEqual(["card", "titles"]);
+    expect(registry.shape(data, "card")).toEqual({
+      user: { email: "ada@example.com" },
+    });
+  });
+
+  it("should serve registered queries from the middleware", () => {
+    const registry = new QueryRegistry({ lock: true });
+    const id = registry.register("card", "user { name }");
+    const shapeBody = createResponseShaper({ registry });
+    expect(shapeBody(data, "card").body).toEqual({ user: { name: "Ada" } });
+    expect(shapeBody(data, id).body).toEqual({ user: { name: "Ada" } });
+    expect(shapeBody(data, "user { email }")).toEqual({
+      status: 400,
+      body: { error: 'Unknown query "user { email }"' },
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect } from "vitest";
+import {
+  compile,
+  shape,
+  shapeAsync,
+  autoResolve,
+  AmbiguousKeyError,
+} from "../src/index";
+
+describe("autoResolve policies", () => {
+  const data = {
+    team: { lead: { name: "Grace", email: "grace@example.com" } },
+    meta: { name: "Platform" },
+    user: { id: 1 },
+  };
+
+  // ======================================================
+  // 🟩 POLICIES
+  // ======================================================
+  it("should take the first match in key order by default", () => {
+    expect(shape(data, `name email`)).toEqual({
+      name: "Grace",
+      email: "grace@example.com",
+    });
+    expect(shape(data, `name`, { autoResolve: "depthFirst" })).toEqual({
+      name: "Grace",
+    });
+  });
+
+  it("should take the shallowest match when breadthFirst", () => {
+    expect(shape(data, `name email`, { autoResolve: "breadthFirst" })).toEqual({
+      name: "Platform",
+      email: "grace@example.com",
+    });
+  });
+
+  it("should not search the root when off", () => {
+    expect(shape(data, `name user { id }`, { autoResolve: "off" })).toEqual({
+      name: null,
+      user: { id: 1 },
+    });
+  });
+
+  it("should read only paths within the parent with pathsOnly", () => {
+    const data = { user: { id: 1 }, secret: 5 };
+    const query = "user { id secret } x: secret + 1 y: user.id";
+    const expected = { user: { id: 1, secret: null }, x: null, y: 1 };
+    expect(shape(data, query, { pathsOnly: true })).toEqual(expected);
+    expect(compile(query, { pathsOnly: true })(data)).toEqual(expected);
+  });
+
+  it("should only read the root's own keys when shallow", () => {
+    const query = `user { id meta team { lead { name } } }`;
+    expect(shape(data, query, { autoResolve: "shallow" })).toEqual({
+      user: {
+        id: 1,
+        meta: { name: "Platform" },
+        team: { lead: { name: "Grace" } },
+      },
+    });
+    expect(shape(data, `email`, { autoResolve: "shallow" })).toEqual({
+      email: null,
+    });
+  });
+
+  it("should stop at maxDepth", () => {
+    expect(shape(data, `name email`, { autoResolve: { maxDepth: 1 } })).toEqual(
+      { name: "Platform", email: null }
+    );
+  });
+
+  it("should require a single match when unique", () => {
+    expect(shape(data, `email`, { autoResolve: "unique" })).toEqual({
+      email: "grace@example.com",
+    });
+    expect(() => shape(data, `name`, { autoResolve: "unique" })).toThrow(
+      'Ambiguous field "name": found at "meta.name", "team.lead.name"'
+    );
+    // Within maxDepth the match is unique again
+    expect(
+      shape(data, `name`, { autoResolve: { policy: "unique", maxDepth: 1 } })
+    ).toEqual({ name: "Platform" });
+  });
+
+  it("should report ambiguous matches from shapeAsync", async () => {
+    const error = await shapeAsync(data, `name`, {
+      autoResolve: "unique",
+    }).catch((e) => e);
+    expect(error).toBeInstanceOf(AmbiguousKeyError);
+    expect(error.key).toBe("name");
+    expect(error.paths).toEqual(["meta.name", "team.lead.name"]);
+  });
+
+  // ======================================================
+  // 🟥 EDGE CASES
+  // ======================================================
+  it("should terminate on cyclic data", () => {
+    const node: any = { id: 1, children: [] };
+    node.children.push({ id: 2, parent: node });
+    node.self = node;
+    expect(shape(node, `missing`)).toEqual({ missing: null });
+    expect(autoResolve(node, "missing", "unique")).toBeNull();
+    expect(autoResolve(node, "parent")).toBe(node);
+    expect(autoResolve(node, "missing", "breadthFirst")).toBeNull();
+  });
+
+  it("should search arrays by index", () => {
+    const list = { rows: [{ a: 1 }, { b: 2 }] };
+    expect(autoResolve(list, "b")).toBe(2);
+    expect(() =>
+      autoResolve({ rows: [{ a: 1 }, { a: 2 }] }, "a", "unique")
+    ).toThrow(AmbiguousKeyError);
+  });
+});
@@ -341,4 +341,15 @@ describe("rest-shape (GraphQL-like features)", () => {
     const result = shape(data, query);
     expect(result.user.phone).toBe("N/A");
   });
+
+  it("should keep hand-written objects with argument-like field names", () => {
+    const data = { user: { first: "Ada", key: "k1", source: "web" } };
+    const query = {
+      user: { first: "first", key: "key", source: "source", page: "page" },
+    };
+    expect(shape(data, query)).toEqual({
+      user: { first: "Ada", key: "k1", source: "web", page: null },
+    });
+    expect(shape(data, "user { first key source }")).toEqual(data);
+  });
 });
@@ -0,0 +1,106 @@
+import { describe, it, expect } from "vitest";
+import {
+  shape,
+  parseArgs,
+  QueryParseError,
+  QueryVariableError,
+} from "../src/index";
+
+describe("orderBy", () => {
+  const data = {
+    posts: [
+      { title: "b", likes: 10, author: { name: "Zoë" } },
+      { title: "a", likes: 30, author: { name: "Ana" } },
+      { title: "c", likes: null, author: { name: "Émile" } },
+      { title: "d", likes: 30, author: { name: "Bo" } },
+      { title: "item 10", likes: 5, author: { name: "Öz" } },
+      { title: "item 9", likes: 5, author: { name: "Al" } },
+    ],
+  };
+  const titles = (query: string, options?: any) =>
+    shape(data, query, options).posts.map((p: any) => p.title);
+
+  // ======================================================
+  // 🟩 SORTING
+  // ======================================================
+  it("should sort before skip and limit", () => {
+    expect(titles(`posts(orderBy: "likes desc", limit: 3) { title }`)).toEqual([
+      "a",
+      "d",
+      "b",
+    ]);
+    expect(
+      titles(`posts(orderBy: "likes desc", skip: 1, limit: 2) { title }`)
+    ).toEqual(["d", "b"]);
+  });
+
+  it("should sort by several keys and keep ties stable", () => {
+    expect(titles(`posts(orderBy: "likes asc, title desc") { title }`)).toEqual(
+      ["item 10", "item 9", "b", "d", "a", "c"]
+    );
+    expect(titles(`posts(orderBy: "likes") { title }`)).toEqual([
+      "item 10",
+      "item 9",
+      "b",
+      "a",
+      "d",
+      "c",
+    ]);
+  });
+
+  it("should place nulls last unless asked otherwise", () => {
+    expect(titles(`posts(orderBy: "likes desc") { title }`).pop()).toBe("c");
+    expect(
+      titles(`posts(orderBy: "likes desc nulls first") { title }`)[0]
+    ).toBe("c");
+  });
+
+  it("should compare strings numerically and by locale", () => {
+    expect(
+      titles(`posts(filter: "likes === 5", orderBy: "title") { title }`)
+    ).toEqual(["item 9", "item 10"]);
+    const names = (locale: string) =>
+      shape(
+        data,
+        `posts(orderBy: "author.name", locale: "${locale}") { n: author.name }`
+      ).posts.map((p: any) => p.n);
+    expect(names("de")).toEqual(["Al", "Ana", "Bo", "Émile", "Öz", "Zoë"]);
+    expect(names("sv")).toEqual(["Al", "Ana", "Bo", "Émile", "Zoë", "Öz"]);
+  });
+
+  it("should take orderBy from a variable", () => {
+    const query = `
+      query ($sort: String = "likes desc") {
+        posts(orderBy: $sort, limit: 1) { title }
+      }
+    `;
+    expect(titles(query)).toEqual(["a"]);
+    expect(titles(query, { variables: { sort: "title desc" } })).toEqual([
+      "item 10",
+    ]);
+    expect(() =>
+      shape(data, query, { variables: { sort: "likes sideways" } })
+    ).toThrow(QueryVariableError);
+  });
+
+  // ======================================================
+  // 🟦 PARSING
+  // ======================================================
+  it("should parse orderBy in parseArgs", () => {
+    expect(parseArgs(`orderBy: "likes desc nulls first", limit: 2`)).toEqual({
+      orderBy: [{ path: "likes", direction: "desc", nulls: "first" }],
+      limit: 2,
+    });
+  });
+
+  it("should report a malformed orderBy", () => {
+    const diagnostics: QueryParseError[] = [];
+    const result = shape(data, `posts(orderBy: "likes up") { title }`, {
+      diagnostics,
+    });
+    expect(result.posts).toHaveLength(6);
+    expect(diagnostics[0].message).toBe(
+      'Expected orderBy as "path [asc|desc] [nulls first|last]" but found "likes up" at line 1, column 6'
+    );
+  });
+});
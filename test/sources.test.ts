@@ -0,0 +1,107 @@
+import { describe, it, expect } from "vitest";
+import {
+  multiSource,
+  shape,
+  shapeAsync,
+  parseQuery,
+  generateTypes,
+  QueryParseError,
+} from "../src/index";
+
+describe("multi-source roots", () => {
+  const github = { user: { login: "octocat", email: "octo@github.com" } };
+  const crm = {
+    customer: { email: "octo@example.com", tier: "gold" },
+    notes: [{ text: "VIP" }, { text: "Renewal due" }],
+  };
+  const billing = { account: { balance: 12.5, plan: { name: "pro" } } };
+  const data = multiSource({ github, crm, billing });
+
+  // ======================================================
+  // 🟩 ADDRESSING SOURCES
+  // ======================================================
+  it("should resolve source-prefixed paths", () => {
+    const query = `
+      login: github::user.login
+      email: crm::customer.email
+      balance: billing::account.balance * 2
+      crm::notes(limit: 1) { text }
+    `;
+    expect(shape(data, query)).toEqual({
+      login: "octocat",
+      email: "octo@example.com",
+      balance: 25,
+      notes: [{ text: "VIP" }],
+    });
+  });
+
+  it("should scope a field and its selection with @source", () => {
+    const query = `
+      user @source(name: "github") {
+        login
+        tier: crm::customer.tier
+        plan: billing::account.plan { name }
+      }
+      customer @source(name: "crm") { email }
+    `;
+    expect(shape(data, query)).toEqual({
+      user: { login: "octocat", tier: "gold", plan: { name: "pro" } },
+      customer: { email: "octo@example.com" },
+    });
+  });
+
+  it("should address sources by name at the top level", () => {
+    expect(shape(data, `crm { customer { tier } }`)).toEqual({
+      crm: { customer: { tier: "gold" } },
+    });
+  });
+
+  // ======================================================
+  // 🟦 SCOPING
+  // ======================================================
+  it("should never auto-resolve keys across sources", () => {
+    expect(shape(data, `tier balance`)).toEqual({ tier: null, balance: null });
+    expect(shape(data, `a: crm::tier b: crm::balance c: github::tier`)).toEqual(
+      { a: "gold", b: null, c: null }
+    );
+    expect(shape(data, `x: nowhere::customer.email`)).toEqual({ x: null });
+  });
+
+  it("should keep a plain sources key in ordinary data", () => {
+    const payload = { sources: [{ id: 1 }], total: 1 };
+    expect(shape(payload, `sources { id } total`)).toEqual(payload);
+    const only = { sources: { wiki: { url: "x" } } };
+    expect(shape(only, `sources { wiki { url } }`)).toEqual(only);
+  });
+
+  it("should await promised sources in shapeAsync", async () => {
+    const lazy = multiSource({ crm: Promise.resolve(crm) });
+    expect(await shapeAsync(lazy, `email: crm::customer.email`)).toEqual({
+      email: "octo@example.com",
+    });
+  });
+
+  // ======================================================
+  // 🟨 PARSING
+  // ======================================================
+  it("should lower prefixes and @source to the source key", () => {
+    expect(
+      parseQuery(
+        `e: crm::customer.email crm::notes { text } x @source(name: "billing")`
+      )
+    ).toEqual({
+      e: { path: "customer.email", source: "crm" },
+      notes: { source: "crm", nested: { text: "text" } },
+      x: { source: "billing" },
+    });
+    expect(() =>
+      parseQuery(`x @source(id: "crm")`, undefined, { strict: true })
+    ).toThrow(QueryParseError);
+  });
+
+  it("should type source fields as unknown", () => {
+    expect(generateTypes(`e: crm::customer.email`, { sample: data })).toContain(
+      "e: unknown;"
+    );
+  });
+});
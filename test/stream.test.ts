@@ -0,0 +1,145 @@
+import { describe, it, expect } from "vitest";
+import { Readable } from "node:stream";
+import { shape, shapeStream, toNdjson } from "../src/index";
+
+/** Text split into chunks of `size` characters */
+const chunked = (text: string, size: number) =>
+  Array.from({ length: Math.ceil(text.length / size) }, (_, i) =>
+    text.slice(i * size, (i + 1) * size)
+  );
+
+async function collect<T>(items: AsyncIterable<T>) {
+  const result: T[] = [];
+  for await (const item of items) result.push(item);
+  return result;
+}
+
+describe("shapeStream", () => {
+  const data = {
+    meta: { records: [{ id: 0 }], note: 'quotes " and \\ slashes' },
+    records: [
+      { id: 1, name: "Ada", active: true, tags: ["a", "b"], score: 1.5e2 },
+      { id: 2, name: "Bob", active: false, tags: [], score: -3 },
+      { id: 3, name: "Zoë", active: true, tags: ["c"], score: null },
+      { id: 4, name: "Dan", active: true, tags: [], score: 0 },
+    ],
+    total: 4,
+  };
+  const text = JSON.stringify(data, null, 2);
+
+  // ======================================================
+  // 🟩 STREAMING ITEMS
+  // ======================================================
+  it("should shape items like shape does", async () => {
+    const query = `records(filter: "active", skip: 1, limit: 2) {
+      id
+      label: name
+      tagCount: tags.length
+    }`;
+    const items = await collect(shapeStream(chunked(text, 7), query));
+    expect(items).toEqual(shape(data, query).records);
+    expect(items).toEqual([
+      { id: 3, label: "Zoë", tagCount: 1 },
+      { id: 4, label: "Dan", tagCount: 0 },
+    ]);
+  });
+
+  it("should parse chunks split anywhere, including inside characters", async () => {
+    const bytes = new TextEncoder().encode(text);
+    for (const size of [1, 3, 64]) {
+      const chunks = Array.from(
+        { length: Math.ceil(bytes.length / size) },
+        (_, i) => bytes.slice(i * size, (i + 1) * size)
+      );
+      const items = await collect(shapeStream(chunks, "records"));
+      expect(items).toEqual(data.records);
+    }
+  });
+
+  it("should read a Node Readable", async () => {
+    const input = Readable.from(chunked(text, 16).map((s) => Buffer.from(s)));
+    const items = await collect(shapeStream(input, "records { name }"));
+    expect(items.map((item) => item.name)).toEqual([
+      "Ada",
+      "Bob",
+      "Zoë",
+      "Dan",
+    ]);
+  });
+
+  it("should stream an array at a dot-path", async () => {
+    const input = JSON.stringify({ data: { records: [1, 2], other: [3] } });
+    expect(await collect(shapeStream([input], "items: data.records"))).toEqual([
+      1, 2,
+    ]);
+    expect(await collect(shapeStream([input], "missing"))).toEqual([]);
+  });
+
+  it("should resolve variables in arguments and the selection", async () => {
+    const query = `query ($min: Int, $max: Int = 2, $unit: String = "pts") {
+      records(filter: "score != null && score >= $min", limit: $max) { id points: score + " " + $unit }
+    }`;
+    const items = await collect(
+      shapeStream([text], query, { variables: { min: 0 } })
+    );
+    expect(items).toEqual([
+      { id: 1, points: "150 pts" },
+      { id: 4, points: "0 pts" },
+    ]);
+  });
+
+  it("should stop reading once the limit is reached", async () => {
+    let read = 0;
+    function* input() {
+      for (const chunk of chunked(text, 10)) {
+        read++;
+        yield chunk;
+      }
+    }
+    const items = await collect(
+      shapeStream(input(), "records(limit: 1) { id }")
+    );
+    expect(items).toEqual([{ id: 1 }]);
+    expect(read).toBeLessThan(chunked(text, 10).length / 2);
+  });
+
+  it("should stop reading once the array has closed", async () => {
+    const input = ['{"records": [{"id": 1}], "rest": ', "not json"];
+    expect(await collect(shapeStream(input, "records { id }"))).toEqual([
+      { id: 1 },
+    ]);
+  });
+
+  // ======================================================
+  // 🟩 ERRORS
+  // ======================================================
+  it("should refuse arguments that need the whole array", async () => {
+    await expect(
+      collect(shapeStream([text], 'records(orderBy: "id") { id }'))
+    ).rejects.toThrow('"orderBy" needs the whole array and cannot be streamed');
+    await expect(collect(shapeStream([text], "records total"))).rejects.toThrow(
+      "exactly one array field"
+    );
+  });
+
+  it("should reject invalid JSON with its position", async () => {
+    await expect(
+      collect(shapeStream(['{"records": [1, }'], "records"))
+    ).rejects.toThrow('Unexpected "}" in JSON at position 16');
+    await expect(
+      collect(shapeStream(['{"records": [1'], "records"))
+    ).rejects.toThrow("Unexpected end of JSON input");
+    await expect(
+      collect(shapeStream(['{"records": {"a": 1}}'], "records"))
+    ).rejects.toThrow('Expected an array at "records"');
+  });
+});
+
+describe("toNdjson", () => {
+  it("should write one JSON line per item", async () => {
+    const lines = await collect(
+      toNdjson(shapeStream(['{"records": [{"id": 1}, {"id": 2}]}'], "records"))
+    );
+    expect(lines.join("")).toBe('{"id":1}\n{"id":2}\n');
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, it, expect, expectTypeOf } from "vitest";
+import { shape, generateTypes, resultSchema } from "../src/index";
+import { main, CliIO } from "../src/cli";
+
+describe("output type generation", () => {
+  const sample = {
+    user: {
+      name: "John",
+      lastName: "Doe",
+      email: "john@example.com",
+      phone: null,
+      isGuest: false,
+      tags: ["a", "b"],
+    },
+    posts: [
+      { title: "Post 1", likes: 120, meta: { views: 10 } },
+      { title: "Post 2", likes: 30 },
+    ],
+  };
+
+  // ======================================================
+  // 🟩 GENERATOR
+  // ======================================================
+  it("should generate an interface from a sample payload", () => {
+    const query = `
+      fullName: user.name + " " + user.lastName
+      user {
+        name
+        mail: email
+        phone @default(value: "n/a")
+        email @skip(if: "isGuest")
+        tagCount: tags.length
+      }
+      posts(limit: 2) {
+        title
+        isPopular: likes > 100
+        views: meta.views
+      }
+    `;
+    expect(generateTypes(query, { sample, name: "Profile" })).toBe(
+      [
+        "// Generated by rest-shape. Do not edit.",
+        "",
+        "export interface Profile {",
+        "  fullName: string;",
+        "  user: {",
+        "    name: string;",
+        "    mail: string;",
+        "    phone: string;",
+        "    email: string | null;",
+        "    tagCount: number;",
+        "  };",
+        "  /** At most 2 items */",
+        "  posts: {",
+        "    title: string;",
+        "    isPopular: boolean;",
+        "    views: number | null;",
+        "  }[];",
+        "}",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("should read nullability and refs from a JSON Schema", () => {
+    const schema = {
+      type: "object" as const,
+      required: ["pet"],
+      properties: { pet: { $ref: "#/definitions/Pet" } },
+      definitions: {
+        Pet: {
+          type: "object",
+          required: ["id"],
+          properties: {
+            id: { type: "integer" },
+            name: { type: "string", nullable: true },
+            status: { enum: ["available", "sold"] },
+          },
+        },
+      },
+    };
+    const result = resultSchema(`pet { id name status }`, schema);
+    expect(result.properties!.pet).toEqual({
+      type: "object",
+      properties: {
+        id: { type: "integer" },
+        name: { type: ["string", "null"] },
+        status: { anyOf: [{ enum: ["available", "sold"] }, { type: "null" }] },
+      },
+      required: ["id", "name", "status"],
+      additionalProperties: false,
+    });
+    expect(generateTypes(`pet { id name status }`, { schema })).toContain(
+      'status: "available" | "sold" | null;'
+    );
+  });
+
+  it("should keep null in the type of a nullable enum", () => {
+    const schema = {
+      type: "object" as const,
+      properties: {
+        status: { type: "string" as const, enum: ["open", "closed"] },
+      },
+    };
+    expect(generateTypes(`status`, { schema })).toContain(
+      'status: "open" | "closed" | null;'
+    );
+  });
+
+  it("should type unknown fields as unknown", () => {
+    expect(generateTypes(`mystery`, { sample })).toContain("mystery: unknown;");
+  });
+
+  // ======================================================
+  // 🟦 CLI
+  // ======================================================
+  it("should write types from the CLI", () => {
+    const files: Record<string, string> = {
+      "user.shape": "user { name }",
+      "sample.json": JSON.stringify(sample),
+    };
+    const io: CliIO = {
+      readFile: (path) => files[path],
+      writeFile: (path, content) => (files[path] = content),
+      stdout: () => {},
+      stderr: () => {},
+    };
+    const code = main(
+      ["types", "user.shape", "--sample", "sample.json", "--out", "user.d.ts"],
+      io
+    );
+    expect(code).toBe(0);
+    expect(files["user.d.ts"]).toContain("export interface ShapeResult {");
+    expect(files["user.d.ts"]).toContain("name: string;");
+  });
+
+  // ======================================================
+  // 🟨 INFERENCE
+  // ======================================================
+  it("should infer result types for literal queries", () => {
+    const result = shape(
+      sample,
+      `
+        user { name mail: email phone }
+        posts { title views: meta.views }
+      `
+    );
+    expectTypeOf(result).toEqualTypeOf<{
+      user: { name: string; mail: string; phone: null };
+      posts: { title: string; views: number | null }[];
+    }>();
+    expect(result.posts[1].views).toBeNull();
+
+    const computed = shape(sample, `total: posts.length * 2`);
+    expectTypeOf(computed).toBeAny();
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect } from "vitest";
+import { shape, unshape } from "../src/index";
+
+describe("unshape", () => {
+  const data = {
+    user: {
+      id: 7,
+      firstName: "Ada",
+      address: { city: "London", zip: "N1" },
+      tags: ["math", "engines"],
+    },
+    posts: [
+      { id: 1, title: "Engines", draft: false },
+      { id: 2, title: "Notes", draft: true },
+      { id: 3, title: "Letters", draft: false },
+    ],
+  };
+
+  // ======================================================
+  // 🟩 WRITING BACK
+  // ======================================================
+  it("should write fields back along their source paths", () => {
+    const query = `
+      user {
+        id
+        name: firstName
+        city: address.city
+      }
+      posts { title }
+    `;
+    const form = shape(data, query);
+    form.user.city = "Paris";
+    form.posts[1].title = "Notebook";
+
+    expect(unshape(form, query).patch).toEqual({
+      user: {
+        id: 7,
+        firstName: "Ada",
+        address: { city: "Paris" },
+      },
+      posts: {
+        0: { title: "Engines" },
+        1: { title: "Notebook" },
+        2: { title: "Letters" },
+      },
+    });
+
+    const minimal = unshape(form, query, { original: data });
+    expect(minimal.patch).toEqual({
+      user: { address: { city: "Paris" } },
+      posts: { 1: { title: "Notebook" } },
+    });
+    expect(minimal.operations).toEqual([
+      { op: "replace", path: "/user/address/city", value: "Paris" },
+      { op: "replace", path: "/posts/1/title", value: "Notebook" },
+    ]);
+    expect(minimal.notInvertible).toEqual([]);
+  });
+
+  it("should add values the original lacks", () => {
+    const query = `profile { bio: about.text } title`;
+    const { operations } = unshape(
+      { profile: { bio: "Hi" }, title: "a/b~c" },
+      query,
+      { original: { title: "old" } }
+    );
+    expect(operations).toEqual([
+      { op: "add", path: "/profile/about/text", value: "Hi" },
+      { op: "replace", path: "/title", value: "a/b~c" },
+    ]);
+  });
+
+  it("should map items after skip and limit to their source index", () => {
+    const query = `posts(skip: 1, limit: 1) { title }`;
+    const form = shape(data, query);
+    expect(form.posts).toEqual([{ title: "Notes" }]);
+    expect(unshape(form, query).operations).toEqual([
+      { op: "add", path: "/posts/1/title", value: "Notes" },
+    ]);
+  });
+
+  it("should follow fragments and skip skipped fields", () => {
+    const fragments = { names: { name: { path: "firstName" } } };
+    const query = `user { ...names id @skip(if: "true") }`;
+    const form = shape(data, query, { fragments });
+    expect(form.user).toEqual({ name: "Ada", id: null });
+    expect(unshape(form, query, { fragments }).patch).toEqual({
+      user: { firstName: "Ada" },
+    });
+  });
+
+  it("should not write @default placeholders back", () => {
+    const query = `user { name phone @default(value: "N/A") }`;
+    const original = { user: { name: "Ada" } };
+    const form = shape(original, query);
+    expect(form.user.phone).toBe("N/A");
+    expect(unshape(form, query, { original })).toEqual({
+      patch: {},
+      operations: [],
+      notInvertible: [],
+    });
+    form.user.phone = "555-0100";
+    expect(unshape(form, query, { original }).patch).toEqual({
+      user: { phone: "555-0100" },
+    });
+  });
+
+  // ======================================================
+  // 🟥 NOT INVERTIBLE
+  // ======================================================
+  it("should report fields it cannot write back", () => {
+    const query = `
+      user {
+        label: firstName + "!"
+        upper: firstName @transform(fn: "value.toUpperCase()")
+        place: address.town || address.city
+      }
+      drafts: posts(filter: "draft") { title }
+      sorted: posts(orderBy: "title") { title }
+      count: posts.length
+    `;
+    const result = unshape(shape(data, query), query);
+    expect(result.notInvertible).toEqual([
+      { path: "user.label", reason: "computed expression" },
+      { path: "user.upper", reason: "@transform" },
+      { path: "user.place", reason: "fallback between paths" },
+      { path: "drafts", reason: '"filter" changes the items' },
+      { path: "sorted", reason: '"orderBy" changes the items' },
+      { path: "count", reason: "length" },
+    ]);
+    expect(result.patch).toEqual({});
+  });
+});
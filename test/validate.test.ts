@@ -0,0 +1,165 @@
+import { describe, it, expect } from "vitest";
+import {
+  validateQuery,
+  inferSchema,
+  parseQuery,
+  QueryParseError,
+  QueryValidationError,
+  JsonSchema,
+} from "../src/index";
+
+describe("validateQuery", () => {
+  const schema = inferSchema({
+    user: { name: "Ada", tags: ["admin"], profile: { city: "London" } },
+    posts: [{ title: "Engines", likes: 3, author: { name: "Ada" } }],
+    count: 1,
+  });
+  const messages = (errors: QueryValidationError[]) =>
+    errors.map((error) => error.message);
+
+  // ======================================================
+  // 🟩 VALID QUERIES
+  // ======================================================
+  it("should accept queries the schema describes", () => {
+    const query = `
+      user { name city: profile.city tagCount: tags.length }
+      posts(filter: "likes > 1", orderBy: "likes desc", limit: 2) {
+        title
+        author { name }
+      }
+      total: count * 2
+      label: user.name || "anonymous"
+    `;
+    expect(validateQuery(query, schema)).toEqual([]);
+  });
+
+  it("should accept fields resolved from the root", () => {
+    expect(validateQuery(`posts { title count city }`, schema)).toEqual([]);
+    expect(
+      messages(
+        validateQuery(`posts { count city }`, schema, {
+          autoResolve: "shallow",
+        })
+      )
+    ).toEqual(['Unknown field "city" at line 1, column 15']);
+  });
+
+  // ======================================================
+  // 🟥 REPORTED PROBLEMS
+  // ======================================================
+  it("should report unknown fields and paths with locations", () => {
+    const query = `user {
+  nmae
+  town: profile.cty
+}
+posts { title author { email } }`;
+    const errors = validateQuery(query, schema, { autoResolve: "off" });
+    expect(messages(errors)).toEqual([
+      'Unknown field "nmae" at line 2, column 3',
+      'Unknown path "profile.cty": no field "cty" at line 3, column 3',
+      'Unknown field "email" at line 5, column 24',
+    ]);
+    expect(errors.map((error) => error.path)).toEqual([
+      "user.nmae",
+      "user.town",
+      "posts.author.email",
+    ]);
+    expect(errors[0]).toBeInstanceOf(QueryValidationError);
+    expect(errors[0]).toMatchObject({ line: 2, column: 3 });
+  });
+
+  it("should report the typo of the path that matched furthest", () => {
+    expect(messages(validateQuery(`user { n: user.nme }`, schema))).toEqual([
+      'Unknown path "user.nme": no field "nme" at line 1, column 8',
+    ]);
+    expect(messages(validateQuery(`user { c: profile.cty }`, schema))).toEqual([
+      'Unknown path "profile.cty": no field "cty" at line 1, column 8',
+    ]);
+  });
+
+  it("should report subfields selected on scalars", () => {
+    expect(messages(validateQuery(`posts { title { text } }`, schema))).toEqual(
+      [
+        'Cannot select subfields of "title", which is string at line 1, column 9',
+      ]
+    );
+  });
+
+  it("should report array arguments on other values", () => {
+    const query = `user(filter: "name", limit: 1) { name } count(skip: 1)`;
+    expect(messages(validateQuery(query, schema))).toEqual([
+      '"filter", "limit" expects an array, but "user" is object at line 1, column 1',
+      '"skip" expects an array, but "count" is integer at line 1, column 41',
+    ]);
+  });
+
+  it("should report unknown orderBy and groupBy paths", () => {
+    const query = `posts(orderBy: "author.age desc", groupBy: "kind") { title }`;
+    expect(messages(validateQuery(query, schema))).toEqual([
+      'Unknown groupBy path "kind": no field "kind" at line 1, column 1',
+      'Unknown orderBy path "author.age": no field "age" at line 1, column 1',
+    ]);
+  });
+
+  it("should validate QueryObjects and fragments without locations", () => {
+    const errors = validateQuery(
+      parseQuery(`posts { ...postFields }`),
+      schema,
+      { fragments: { postFields: { title: "title", body: "body" } } }
+    );
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatchObject({
+      message: 'Unknown field "body"',
+      path: "posts.body",
+      line: undefined,
+    });
+  });
+
+  it("should throw for queries that do not parse", () => {
+    expect(() => validateQuery(`posts(limit: ) { title }`, schema)).toThrow(
+      QueryParseError
+    );
+  });
+
+  // ======================================================
+  // 🟦 SCHEMA FEATURES
+  // ======================================================
+  it("should resolve OpenAPI refs against the document", () => {
+    const document: JsonSchema = {
+      components: {
+        schemas: {
+          User: {
+            type: "object",
+            properties: { name: { type: "string", nullable: true } },
+          },
+          Page: {
+            type: "object",
+            properties: {
+              items: {
+                type: "array",
+                items: { $ref: "#/components/schemas/User" },
+              },
+            },
+          },
+        },
+      },
+    };
+    const page = { $ref: "#/components/schemas/Page" };
+    expect(validateQuery(`items { name }`, page, { document })).toEqual([]);
+    expect(
+      messages(validateQuery(`items { name { first } }`, page, { document }))
+    ).toEqual([
+      'Cannot select subfields of "name", which is string at line 1, column 9',
+    ]);
+  });
+
+  it("should not check fields the schema leaves open", () => {
+    const open: JsonSchema = {
+      type: "object",
+      properties: { meta: {}, extra: { type: "object" } },
+    };
+    expect(
+      validateQuery(`meta { anything } extra { more(limit: 1) }`, open)
+    ).toEqual([]);
+  });
+});
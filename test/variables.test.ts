@@ -0,0 +1,167 @@
+import { describe, it, expect } from "vitest";
+import {
+  shape,
+  compile,
+  parseDocument,
+  QueryVariableError,
+} from "../src/index";
+
+describe("query variables", () => {
+  const data = {
+    user: { name: "John", isGuest: false },
+    posts: [
+      { title: "Post 1", status: "published", likes: 120 },
+      { title: "Post 2", status: "draft", likes: 30 },
+      { title: "Post 3", status: "published", likes: 50 },
+    ],
+  };
+
+  const query = `
+    query ($status: String = "published", $max: Int, $offset: Int = 0) {
+      posts(filter: "status === $status", limit: $max, skip: $offset) {
+        title
+        label: title + " (" + $status + ")"
+      }
+    }
+  `;
+
+  // ======================================================
+  // 🟩 HEADER
+  // ======================================================
+  it("should parse variable definitions into the AST", () => {
+    const doc = parseDocument(
+      `query Feed($ids: [ID!]!, $q: String = "x") { posts { title } }`
+    );
+    expect(doc.name).toBe("Feed");
+    expect(doc.variables).toMatchObject([
+      {
+        name: "ids",
+        type: {
+          kind: "ListType",
+          nonNull: true,
+          ofType: { kind: "NamedType", name: "ID", nonNull: true },
+        },
+      },
+      { name: "q", defaultValue: "x" },
+    ]);
+    expect(doc.selections).toHaveLength(1);
+  });
+
+  it("should still treat a plain field named query as a field", () => {
+    expect(shape({ query: { q: "x" } }, `query { q }`)).toEqual({
+      query: { q: "x" },
+    });
+  });
+
+  // ======================================================
+  // 🟨 USAGE
+  // ======================================================
+  it("should use defaults and supplied values in filter, limit and skip", () => {
+    expect(shape(data, query).posts).toEqual([
+      { title: "Post 1", label: "Post 1 (published)" },
+      { title: "Post 3", label: "Post 3 (published)" },
+    ]);
+    const result = shape(data, query, {
+      variables: { status: "draft", max: 1 },
+    });
+    expect(result.posts).toEqual([
+      { title: "Post 2", label: "Post 2 (draft)" },
+    ]);
+  });
+
+  it("should use variables in @skip, @include and @default", () => {
+    const q = `
+      query ($hideName: Boolean!, $fallback: String = "n/a") {
+        user {
+          name @skip(if: $hideName)
+          guest: isGuest @include(if: "!$hideName")
+          phone @default(value: $fallback)
+        }
+      }
+    `;
+    expect(shape(data, q, { variables: { hideName: true } }).user).toEqual({
+      name: null,
+      guest: null,
+      phone: "n/a",
+    });
+    expect(
+      shape(data, q, { variables: { hideName: false, fallback: "-" } }).user
+    ).toEqual({ name: "John", guest: false, phone: "-" });
+  });
+
+  it("should evaluate variables in safe mode and through compile", () => {
+    const shaper = compile(query, { mode: "safe" });
+    expect(shaper(data, { status: "draft" }).posts).toHaveLength(1);
+    expect(shaper(data).posts).toHaveLength(2);
+  });
+
+  it("should pass variables through unchecked without a header", () => {
+    const result = shape(data, `top: posts(limit: $n) { title }`, {
+      variables: { n: 1 },
+    });
+    expect(result.top).toEqual([{ title: "Post 1" }]);
+  });
+
+  // ======================================================
+  // 🟥 TYPE CHECKING
+  // ======================================================
+  it("should reject missing required and mistyped variables", () => {
+    const q = `query ($max: Int!, $tags: [String]) { posts(limit: $max) { title } }`;
+    expect(() => shape(data, q)).toThrow(
+      'Variable "$max" of required type "Int!" was not provided'
+    );
+    expect(() => shape(data, q, { variables: { max: 1.5 } })).toThrow(
+      QueryVariableError
+    );
+    expect(() =>
+      shape(data, q, { variables: { max: 1, tags: ["a", 2] } })
+    ).toThrow(
+      'Variable "$tags" expected a value of type "[String]" but got ["a",2]'
+    );
+    expect(
+      shape(data, q, { variables: { max: 1, tags: null } }).posts
+    ).toHaveLength(1);
+  });
+
+  it("should report variables the header does not declare", () => {
+    const q = `query ($max: Int) {
+      posts(limit: $mx) { title label: title + $suffix }
+      user @skip(if: $hide) { name }
+    }`;
+    expect(() => parseDocument(q, { strict: true })).toThrow(
+      'Expected a variable declared in the header but found "$mx" at line 2, column 20'
+    );
+    const diagnostics: Error[] = [];
+    shape(data, q, { diagnostics });
+    expect(diagnostics.map((error) => error.message)).toEqual([
+      'Expected a variable declared in the header but found "$mx" at line 2, column 20',
+      'Expected a variable declared in the header but found "$suffix" at line 2, column 48',
+      'Expected a variable declared in the header but found "$hide" at line 3, column 22',
+    ]);
+  });
+
+  it("should report integer arguments bound to other types", () => {
+    expect(() =>
+      parseDocument(`query ($max: String) { posts(limit: $max) { title } }`, {
+        strict: true,
+      })
+    ).toThrow(
+      'Expected a variable of type Int but found "$max" of type String'
+    );
+    // Lenient mode drops the argument instead of slicing with NaN
+    const diagnostics: Error[] = [];
+    const q = `query ($max: String = "1") { posts(limit: $max) { title } }`;
+    expect(shape(data, q, { diagnostics }).posts).toHaveLength(3);
+    expect(diagnostics).toHaveLength(1);
+    expect(
+      shape(data, `query ($max: Int! = 1) { posts(limit: $max) { title } }`)
+        .posts
+    ).toHaveLength(1);
+  });
+
+  it("should report unknown variable types as parse errors", () => {
+    expect(() =>
+      parseDocument(`query ($x: Integer) { a }`, { strict: true })
+    ).toThrow(/Expected one of String, Int, Float, Boolean, ID, JSON/);
+  });
+});
@@ -0,0 +1,10 @@
+import { defineConfig } from "tsup";
+
+// The CLI is bundled to CommonJS so `node dist/bin.js` runs as published
+export default defineConfig({
+  entry: ["src/bin.ts"],
+  format: ["cjs"],
+  platform: "node",
+  target: "node18",
+  outDir: "dist",
+});